@@ -0,0 +1,29 @@
+import { Outlet, useLocation } from "react-router-dom";
+import { Separator } from "@/components/ui/separator";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { NAV_ITEMS, isNavItemActive } from "@/lib/navigation";
+
+/** Layout for every page: navigation sidebar (a drawer on mobile) beside the routed page. */
+export const AppShell = () => {
+  const { pathname } = useLocation();
+  const section = NAV_ITEMS.find((item) => isNavItemActive(item.url, pathname));
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-14 shrink-0 items-center gap-2 border-b px-4">
+          <SidebarTrigger className="-ml-1" />
+          <Separator orientation="vertical" className="mr-2 h-4" />
+          <h1 className="text-sm font-medium text-foreground">{section?.title}</h1>
+          <div className="ml-auto">
+            <ThemeToggle />
+          </div>
+        </header>
+        <Outlet />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
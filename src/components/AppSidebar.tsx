@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { NavLink, useLocation } from "react-router-dom";
+import { Code2 } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { NAV_ITEMS, isNavItemActive } from "@/lib/navigation";
+import { SEARCH_PATH } from "@/lib/search-url";
+
+export const AppSidebar = () => {
+  const { pathname, search } = useLocation();
+  const { isMobile, setOpenMobile } = useSidebar();
+  const [lastSearchQuery, setLastSearchQuery] = useState("");
+
+  // Returning to Search from another section reopens the last search instead of an empty form.
+  useEffect(() => {
+    if (isNavItemActive(SEARCH_PATH, pathname)) setLastSearchQuery(search);
+  }, [pathname, search]);
+  const searchUrl = `${SEARCH_PATH}${lastSearchQuery}`;
+
+  // On mobile the sidebar is a drawer; close it once a section is picked.
+  const handleNavigate = () => {
+    if (isMobile) setOpenMobile(false);
+  };
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton size="lg" asChild>
+              <NavLink to={searchUrl} onClick={handleNavigate}>
+                <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-gradient-to-br from-blue-600 to-purple-600 text-white">
+                  <Code2 className="size-4" />
+                </div>
+                <div className="grid flex-1 text-left text-sm leading-tight">
+                  <span className="truncate font-semibold">Partner Resource</span>
+                  <span className="truncate text-xs text-muted-foreground">Search Tool</span>
+                </div>
+              </NavLink>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {NAV_ITEMS.map((item) => (
+                <SidebarMenuItem key={item.url}>
+                  <SidebarMenuButton asChild isActive={isNavItemActive(item.url, pathname)} tooltip={item.title}>
+                    <NavLink to={item.url === SEARCH_PATH ? searchUrl : item.url} onClick={handleNavigate}>
+                      <item.icon />
+                      <span>{item.title}</span>
+                    </NavLink>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter className="group-data-[collapsible=icon]:hidden">
+        <p className="px-2 text-xs text-muted-foreground">
+          Press <kbd className="rounded border bg-muted px-1 font-mono">Ctrl K</kbd> for commands
+        </p>
+      </SidebarFooter>
+      <SidebarRail />
+    </Sidebar>
+  );
+};
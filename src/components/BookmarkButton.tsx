@@ -0,0 +1,51 @@
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useToast } from "@/hooks/use-toast";
+import { bookmarkId } from "@/lib/bookmarks";
+import type { Match } from "@/lib/search-api";
+import { cn } from "@/lib/utils";
+
+interface BookmarkButtonProps {
+  match: Match;
+  keyword: string;
+  className?: string;
+}
+
+/** Saves the match to, or removes it from, the Saved collection. */
+export const BookmarkButton = ({ match, keyword, className }: BookmarkButtonProps) => {
+  const { bookmarks, addBookmark, removeBookmark } = useBookmarks();
+  const { toast } = useToast();
+  const id = bookmarkId(match, keyword);
+  const saved = bookmarks.some((bookmark) => bookmark.id === id);
+
+  const handleClick = () => {
+    if (saved) {
+      removeBookmark(id);
+      toast({
+        title: "Bookmark Removed",
+        description: `Removed ${match.file ?? `the ${match.repo} summary`} from Saved`,
+      });
+    } else {
+      addBookmark(match, keyword);
+      toast({
+        title: "Match Saved",
+        description: "Add notes and tags to it on the Saved page.",
+      });
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleClick}
+      variant="ghost"
+      size="sm"
+      className={cn("h-9 w-9 p-0 text-muted-foreground", saved && "text-blue-600 dark:text-blue-400", className)}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove bookmark" : "Bookmark match"}
+      title={saved ? "Remove bookmark" : "Bookmark match"}
+    >
+      {saved ? <BookmarkCheck className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+    </Button>
+  );
+};
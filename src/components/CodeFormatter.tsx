@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { WrapText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSettings } from "@/hooks/use-settings";
+import { detectLanguage, formatCode, highlightCode, LANGUAGE_LABELS, splitHtmlLines } from "@/lib/code";
+import { markKeywordInHtml } from "@/lib/keyword-match";
+import type { CodeFontSize } from "@/lib/settings";
+import { cn } from "@/lib/utils";
+
+const FONT_SIZE_CLASSES: Record<CodeFontSize, string> = {
+  small: "text-xs",
+  medium: "text-sm",
+  large: "text-base",
+};
+// How long a jumped-to line stays highlighted
+const LINE_FLASH_DURATION = 1500;
+
+interface CodeFormatterProps {
+  code: string;
+  file?: string;
+  /** Number of the first line in the original file; defaults to 1. */
+  startLine?: number;
+  /** Occurrences of this keyword are marked in the rendered code. */
+  keyword?: string;
+  wholeWord?: boolean;
+}
+
+// Enhanced Code Formatter Component
+export const CodeFormatter = ({ code, file, startLine = 1, keyword, wholeWord }: CodeFormatterProps) => {
+  const { settings, updateSettings } = useSettings();
+  const wrap = settings.codeWrap;
+  const [jumpTarget, setJumpTarget] = useState("");
+  const [flashLine, setFlashLine] = useState<number | null>(null);
+  const linesRef = useRef<HTMLDivElement>(null);
+  const formattedCode = formatCode(code);
+
+  const { language, lines } = useMemo(() => {
+    const language = detectLanguage(formattedCode, file);
+    const html = markKeywordInHtml(highlightCode(formattedCode, language), keyword, { wholeWord });
+    return { language, lines: splitHtmlLines(html) };
+  }, [formattedCode, file, keyword, wholeWord]);
+
+  const lastLine = startLine + lines.length - 1;
+
+  useEffect(() => {
+    if (flashLine === null) return;
+    const timer = setTimeout(() => setFlashLine(null), LINE_FLASH_DURATION);
+    return () => clearTimeout(timer);
+  }, [flashLine]);
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const line = Number.parseInt(jumpTarget, 10);
+    if (!Number.isInteger(line)) return;
+
+    const target = Math.min(Math.max(line, startLine), lastLine);
+    linesRef.current
+      ?.querySelector(`[data-line="${target}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+    setFlashLine(target);
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-slate-100 dark:bg-gray-800 border-b border-slate-200 dark:border-gray-700 text-xs">
+        <span className="font-medium uppercase tracking-wide text-slate-500 dark:text-gray-400">
+          {language ? LANGUAGE_LABELS[language] : "Plain text"}
+        </span>
+        <div className="flex items-center gap-2">
+          <form onSubmit={handleJump} className="flex items-center gap-1">
+            <label htmlFor="jump-to-line" className="text-slate-500 dark:text-gray-400">
+              Go to line
+            </label>
+            <Input
+              id="jump-to-line"
+              type="number"
+              min={startLine}
+              max={lastLine}
+              value={jumpTarget}
+              onChange={(e) => setJumpTarget(e.target.value)}
+              placeholder={String(startLine)}
+              className="h-7 w-20 text-xs"
+            />
+          </form>
+          <Button
+            onClick={() => updateSettings({ codeWrap: !wrap })}
+            variant={wrap ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            aria-pressed={wrap}
+            title={wrap ? "Disable soft wrap" : "Enable soft wrap"}
+          >
+            <WrapText className="mr-1 h-3.5 w-3.5" />
+            Wrap
+          </Button>
+        </div>
+      </div>
+      <pre className={cn("hljs-theme bg-slate-50 text-slate-800 dark:bg-gray-900 dark:text-gray-100 py-4 overflow-auto font-mono leading-relaxed shadow-inner", FONT_SIZE_CLASSES[settings.codeFontSize])}>
+        <code ref={linesRef} className={cn("block", !wrap && "min-w-max")}>
+          {lines.map((line, index) => {
+            const lineNumber = startLine + index;
+            return (
+              <div
+                key={index}
+                data-line={lineNumber}
+                className={cn("flex transition-colors", flashLine === lineNumber && "bg-yellow-100 dark:bg-yellow-500/20")}
+              >
+                <span className="sticky left-0 shrink-0 w-14 pr-4 text-right select-none text-slate-400 dark:text-gray-500 bg-slate-50 dark:bg-gray-900">
+                  {lineNumber}
+                </span>
+                <span
+                  className={cn("flex-1 pr-6", wrap ? "whitespace-pre-wrap break-words min-w-0" : "whitespace-pre")}
+                  // Empty lines still need height
+                  dangerouslySetInnerHTML={{ __html: line || " " }}
+                />
+              </div>
+            );
+          })}
+        </code>
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Copy, FileText, Maximize2, PanelRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from "@/components/ui/sheet";
+import { BookmarkButton } from "@/components/BookmarkButton";
+import { CodeFormatter } from "@/components/CodeFormatter";
+import { DeveloperNotes } from "@/components/DeveloperNotes";
+import { HighlightedText } from "@/components/HighlightedText";
+import { MarkdownText } from "@/components/MarkdownText";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { formatCode } from "@/lib/code";
+import { hasModifier, isTypingTarget } from "@/lib/keyboard";
+import { KEYWORD_MARK_CLASS, KEYWORD_MARK_CLASS_ACTIVE } from "@/lib/keyword-match";
+import type { Match } from "@/lib/search-api";
+
+const getOccurrences = (root: HTMLElement | null) =>
+  Array.from(root?.querySelectorAll<HTMLElement>(`.${KEYWORD_MARK_CLASS}`) ?? []);
+
+// Code Popup Modal Component
+interface CodePopupProps {
+  match: Match | null;
+  isOpen: boolean;
+  onClose: () => void;
+  /** The searched keyword, highlighted throughout the popup. */
+  keyword?: string;
+  wholeWord?: boolean;
+  /** Where the match sits in the result list, shown as "3 / 17". */
+  position?: { index: number; total: number };
+  /** Moves to the previous (-1) or next (1) match without closing. */
+  onNavigate?: (delta: number) => void;
+}
+
+export const CodePopup = ({ match, isOpen, onClose, keyword, wholeWord, position, onNavigate }: CodePopupProps) => {
+  const { settings, updateSettings } = useSettings();
+  const layout = settings.viewerLayout;
+  const [copied, setCopied] = useState(false);
+  const [occurrenceCount, setOccurrenceCount] = useState(0);
+  const [activeOccurrence, setActiveOccurrence] = useState(0);
+  // Callback ref: the content mounts inside a portal after this component renders.
+  const [contentElement, setContentElement] = useState<HTMLDivElement | null>(null);
+  const { toast } = useToast();
+
+  // Keep showing the last match while the close animation runs.
+  const lastMatch = useRef(match);
+  if (match) lastMatch.current = match;
+  const shownMatch = match ?? lastMatch.current;
+
+  // Recount whenever the rendered content changes and start again from the first occurrence.
+  useEffect(() => {
+    setOccurrenceCount(getOccurrences(contentElement).length);
+    setActiveOccurrence(0);
+  }, [contentElement, match, keyword, wholeWord]);
+
+  useEffect(() => {
+    const occurrences = getOccurrences(contentElement);
+    occurrences.forEach((element, index) => element.classList.toggle(KEYWORD_MARK_CLASS_ACTIVE, index === activeOccurrence));
+    occurrences[activeOccurrence]?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [activeOccurrence, occurrenceCount, contentElement, match, keyword, wholeWord]);
+
+  const goToOccurrence = (delta: number) => {
+    if (occurrenceCount === 0) return;
+    setActiveOccurrence((current) => (current + delta + occurrenceCount) % occurrenceCount);
+  };
+
+  const handleCopy = async () => {
+    if (shownMatch?.code) {
+      try {
+        // Format the code before copying
+        await navigator.clipboard.writeText(formatCode(shownMatch.code));
+        setCopied(true);
+        toast({
+          title: "Code Copied",
+          description: "Code has been copied to clipboard",
+        });
+        setTimeout(() => setCopied(false), 2000);
+      } catch (err) {
+        toast({
+          title: "Copy Failed",
+          description: "Failed to copy code to clipboard",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!onNavigate || isTypingTarget(e.target) || hasModifier(e)) return;
+    if (e.key === "ArrowLeft") {
+      e.preventDefault();
+      onNavigate(-1);
+    } else if (e.key === "ArrowRight") {
+      e.preventDefault();
+      onNavigate(1);
+    }
+  };
+
+  if (!shownMatch) return null;
+
+  const isSheet = layout === "sheet";
+  const Title = isSheet ? SheetTitle : DialogTitle;
+  const Description = isSheet ? SheetDescription : DialogDescription;
+
+  const header = (
+    // Right padding leaves room for the built-in close button
+    <div className="flex flex-wrap items-center justify-between gap-3 p-6 pr-14 border-b border-border bg-card/95">
+      <div className="flex items-center space-x-3 min-w-0">
+        <FileText className="h-6 w-6 flex-shrink-0 text-blue-500" aria-hidden="true" />
+        <div className="min-w-0">
+          <Title className="text-xl font-semibold text-foreground">{shownMatch.repo}</Title>
+          <Description className="text-sm text-muted-foreground font-mono truncate max-w-md">
+            {shownMatch.file ? (
+              <HighlightedText text={shownMatch.file} keyword={keyword} wholeWord={wholeWord} />
+            ) : (
+              "Repository summary"
+            )}
+          </Description>
+        </div>
+      </div>
+      <div className="flex items-center space-x-3">
+        {position && onNavigate && (
+          <div className="flex items-center space-x-1" role="group" aria-label="Matches">
+            <Button
+              onClick={() => onNavigate(-1)}
+              disabled={position.index === 0}
+              variant="outline"
+              size="sm"
+              className="h-9 w-9 p-0"
+              aria-label="Previous match"
+              title="Previous match (←)"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground tabular-nums min-w-[3.5rem] text-center" aria-live="polite">
+              {position.index + 1} / {position.total}
+            </span>
+            <Button
+              onClick={() => onNavigate(1)}
+              disabled={position.index >= position.total - 1}
+              variant="outline"
+              size="sm"
+              className="h-9 w-9 p-0"
+              aria-label="Next match"
+              title="Next match (→)"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {keyword && (
+          <div className="flex items-center space-x-1" role="group" aria-label="Keyword occurrences">
+            <Button
+              onClick={() => goToOccurrence(-1)}
+              disabled={occurrenceCount === 0}
+              variant="outline"
+              size="sm"
+              className="h-9 w-9 p-0"
+              aria-label="Previous occurrence"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => goToOccurrence(1)}
+              disabled={occurrenceCount === 0}
+              variant="outline"
+              size="sm"
+              className="h-9 w-9 p-0"
+              aria-label="Next occurrence"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground tabular-nums min-w-[4.5rem] text-center" aria-live="polite">
+              {occurrenceCount > 0 ? `${activeOccurrence + 1} of ${occurrenceCount}` : "0 of 0"}
+            </span>
+          </div>
+        )}
+        {shownMatch.code && (
+          <Button
+            onClick={handleCopy}
+            variant="outline"
+            size="sm"
+            className="flex items-center space-x-2 hover:bg-green-50 dark:hover:bg-green-950/40 hover:border-green-300 dark:hover:border-green-800"
+          >
+            {copied ? (
+              <>
+                <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+                <span className="text-green-600 dark:text-green-400">Copied</span>
+              </>
+            ) : (
+              <>
+                <Copy className="h-4 w-4" />
+                <span>Copy Code</span>
+              </>
+            )}
+          </Button>
+        )}
+        {keyword && <BookmarkButton match={shownMatch} keyword={keyword} />}
+        <Button
+          onClick={() => updateSettings({ viewerLayout: isSheet ? "dialog" : "sheet" })}
+          variant="ghost"
+          size="sm"
+          className="h-9 w-9 p-0"
+          aria-label={isSheet ? "Open as dialog" : "Open as side panel"}
+          title={isSheet ? "Open as dialog" : "Open as side panel"}
+        >
+          {isSheet ? <Maximize2 className="h-4 w-4" /> : <PanelRight className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const body = (
+    <div ref={setContentElement} className="flex-1 overflow-auto p-6 bg-muted/40">
+      {shownMatch.file && (
+        <div className="mb-6">
+          <Label className="text-sm font-semibold text-foreground mb-2 block">File Path:</Label>
+          <div className="bg-card p-3 rounded-md border shadow-sm">
+            <p className="text-sm font-mono text-foreground break-all">
+              <HighlightedText text={shownMatch.file} keyword={keyword} wholeWord={wholeWord} />
+            </p>
+          </div>
+        </div>
+      )}
+
+      {shownMatch.DevDescriptionSummary && (
+        <div className="mb-6">
+          <DeveloperNotes notes={shownMatch.DevDescriptionSummary} keyword={keyword} wholeWord={wholeWord} defaultOpen />
+        </div>
+      )}
+
+      {shownMatch.code ? (
+        <div>
+          <Label className="text-sm font-semibold text-foreground mb-3 block flex items-center">
+            <FileText className="h-4 w-4 mr-2" />
+            Code Content:
+          </Label>
+          <div className="rounded-lg overflow-hidden shadow-lg border">
+            <CodeFormatter
+              code={shownMatch.code}
+              file={shownMatch.file}
+              startLine={shownMatch.startLine}
+              keyword={keyword}
+              wholeWord={wholeWord}
+            />
+          </div>
+        </div>
+      ) : shownMatch.summary ? (
+        <div>
+          <Label className="text-sm font-semibold text-foreground mb-3 block">Summary:</Label>
+          <div className="bg-blue-50 dark:bg-blue-950/40 p-4 rounded-lg border border-blue-200 dark:border-blue-900">
+            <MarkdownText text={shownMatch.summary} keyword={keyword} wholeWord={wholeWord} className="text-foreground" />
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-12 text-muted-foreground">
+          <FileText className="h-16 w-16 mx-auto mb-4 opacity-30" />
+          <p className="text-lg">No code content available for this match</p>
+        </div>
+      )}
+    </div>
+  );
+
+  if (isSheet) {
+    // Non-modal so the results stay visible and clickable beside the panel;
+    // clicking another result switches the match instead of closing.
+    return (
+      <Sheet open={isOpen} onOpenChange={handleOpenChange} modal={false}>
+        <SheetContent
+          side="right"
+          className="flex w-full flex-col gap-0 p-0 sm:max-w-2xl"
+          onInteractOutside={(e) => e.preventDefault()}
+          onKeyDown={handleKeyDown}
+        >
+          {header}
+          {body}
+        </SheetContent>
+      </Sheet>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="flex max-w-6xl max-h-[90vh] flex-col gap-0 overflow-hidden p-0" onKeyDown={handleKeyDown}>
+        {header}
+        {body}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,194 +1,129 @@
-import { useState } from "react";
-import { Search, FileText, GitBranch, Loader2, X, Copy, Check } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { Search, Loader2, X, Check, RefreshCw, Link2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { RepositoryMultiSelect } from "@/components/RepositoryMultiSelect";
+import { CodePopup } from "@/components/CodePopup";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ResultCard } from "@/components/ResultCard";
+import { ResultList, type ResultListHandle } from "@/components/ResultList";
+import { ResultsToolbar } from "@/components/ResultsToolbar";
+import { SearchErrorPanel } from "@/components/SearchErrorPanel";
+import { isCancelledError, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useRepositories } from "@/hooks/use-repositories";
+import { useSearchHistory } from "@/hooks/use-search-history";
+import { useResultView } from "@/hooks/use-result-view";
+import { useSettings } from "@/hooks/use-settings";
+import { SEARCH_MAX_RETRIES, searchKeys, searchQueryOptions, useMultiSearch } from "@/hooks/use-search";
+import { toAnalyzeParams, type AnalyzeParams, type Match, type SearchRequest } from "@/lib/search-api";
+import { buildSearchUrl, matchKeys, parseSearchParams, toSearchParams } from "@/lib/search-url";
+import { searchHistoryId } from "@/lib/search-history";
+import type { IndexedMatch } from "@/lib/result-view";
+import { hasModifier, isTypingTarget } from "@/lib/keyboard";
 
-interface Match {
-  file?: string;
-  repo: string;
-  code?: string;
-  explanation?: string;
-  summary?: string;
-  DevDescriptionSummary?: string;
-}
-
-interface SearchResponse {
-  keyword: string;
-  matches: Match[];
-}
-
-const REPOSITORIES = [
-  "adjetter_main",
-  "mainserverreports",
-  "kapture-report",
-  "streamlineservice",
-  "ticket-history-analytics",
-  "kapture-dashboard",
-  "all-repositories"
-];
-
-// Enhanced Code Formatter Component
-const CodeFormatter = ({ code }: { code: string }) => {
-  // Format the code by removing extra whitespace and preserving structure
-  const formatCode = (rawCode: string) => {
-    return rawCode
-      .replace(/\\n/g, '\n')  // Replace escaped newlines with actual newlines
-      .replace(/\\t/g, '  ')  // Replace tabs with spaces
-      .replace(/\\\"/g, '"')  // Replace escaped quotes
-      .replace(/\\\'/g, "'")  // Replace escaped single quotes
-      .trim();
-  };
-
-  const formattedCode = formatCode(code);
+const NO_MATCHES: Match[] = [];
 
-  return (
-    <div className="relative">
-      <pre className="bg-gray-900 text-gray-100 p-6 rounded-lg overflow-auto text-sm font-mono leading-relaxed border border-gray-700 shadow-inner">
-        <code className="block whitespace-pre-wrap break-words">
-          {formattedCode}
-        </code>
-      </pre>
-    </div>
+export const CodeSearchForm = () => {
+  const { settings } = useSettings();
+  const [keyword, setKeyword] = useState("");
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(() =>
+    settings.defaultRepository ? [settings.defaultRepository] : []
   );
-};
-
-// Code Popup Modal Component
-const CodePopup = ({ match, isOpen, onClose }: { match: Match | null, isOpen: boolean, onClose: () => void }) => {
-  const [copied, setCopied] = useState(false);
+  const [forceFresh, setForceFresh] = useState(settings.defaultForceFresh);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { repositories, isFallback: isRepositoryListFallback } = useRepositories();
+  const { recordSearch } = useSearchHistory();
+  const lastRecordedSearch = useRef<string | null>(null);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const resultListRef = useRef<ResultListHandle>(null);
+  // A card to focus as soon as the virtualized list mounts it.
+  const pendingFocus = useRef<number | null>(null);
 
-  const handleCopy = async () => {
-    if (match?.code) {
-      try {
-        // Format the code before copying
-        const formattedCode = match.code
-          .replace(/\\n/g, '\n')
-          .replace(/\\t/g, '  ')
-          .replace(/\\\"/g, '"')
-          .replace(/\\\'/g, "'")
-          .trim();
-          
-        await navigator.clipboard.writeText(formattedCode);
-        setCopied(true);
-        toast({
-          title: "Code Copied",
-          description: "Code has been copied to clipboard",
-        });
-        setTimeout(() => setCopied(false), 2000);
-      } catch (err) {
-        toast({
-          title: "Copy Failed",
-          description: "Failed to copy code to clipboard",
-          variant: "destructive",
-        });
-      }
+  // The URL is the source of truth for the active search, so links can be shared
+  // and back/forward moves between searches. Opening such a link runs the search.
+  const { search: activeSearch, openMatchKey } = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+
+  const search = useMultiSearch(activeSearch);
+  const searchResults = search.results;
+  const matches = searchResults?.matches ?? NO_MATCHES;
+  // Looked up by identity, so a linked match opens only once its repository has answered
+  // and stays open while the others arrive.
+  const keys = useMemo(() => matchKeys(matches), [matches]);
+  const openIndex = openMatchKey !== null ? keys.indexOf(openMatchKey) : -1;
+  const matchIndex = openIndex !== -1 ? openIndex : null;
+  const selectedMatch = matchIndex !== null ? matches[matchIndex] : null;
+  const view = useResultView(matches, {
+    sort: settings.resultSort,
+    groupByRepository: settings.groupByRepository,
+  });
+  const isLoading = search.isLoading;
+  const isRefreshing = search.isFetching && !search.isLoading;
+  // While a retry is in flight the previous error is kept on the query; hide it until the outcome is known.
+  const failedRepos = search.repos.filter((repo) => repo.error && !repo.isFetching);
+  const pendingRepos = search.repos.filter((repo) => repo.isFetching);
+  // failureCount resets on success, so while fetching it is the number of failed attempts so far
+  const attempt = Math.max(1, ...pendingRepos.map((repo) => repo.failureCount + 1));
+  const completedRepoCount = search.repos.length - pendingRepos.length;
+  // Freshness is per repository: a single repository can be re-analyzed without the rest.
+  const answeredRepos = search.repos.filter((repo) => repo.data);
+  const freshRepos = answeredRepos.filter((repo) => repo.params.force);
+
+  const cancelSearch = () => {
+    for (const repo of search.repos) {
+      queryClient.cancelQueries({ queryKey: searchKeys.detail(repo.params) });
     }
   };
 
-  if (!isOpen || !match) return null;
+  // Keep the form in step with the URL when navigating between searches. Keyed on the
+  // search itself, so opening a match or re-analyzing one repository (which only touch
+  // other URL params) leaves edits in progress alone.
+  const formSearch = activeSearch
+    ? JSON.stringify([activeSearch.keyword, activeSearch.repoNames, activeSearch.force])
+    : null;
+  useEffect(() => {
+    if (formSearch === null) return;
+    const [keyword, repoNames, force]: [string, string[] | null, boolean] = JSON.parse(formSearch);
+    setKeyword(keyword);
+    setSelectedRepos(repoNames ?? []);
+    setForceFresh(force);
+  }, [formSearch]);
 
-  return (
-    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
-      <div className="bg-card rounded-lg shadow-2xl max-w-6xl w-full max-h-[90vh] flex flex-col border border-border">
-        {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-border bg-card/95">
-          <div className="flex items-center space-x-3">
-            <FileText className="h-6 w-6 text-blue-500" />
-            <div>
-              <h3 className="text-xl font-semibold text-foreground">{match.repo}</h3>
-              {match.file && (
-                <p className="text-sm text-muted-foreground font-mono truncate max-w-md">
-                  {match.file}
-                </p>
-              )}
-            </div>
-          </div>
-          <div className="flex items-center space-x-3">
-            {match.code && (
-              <Button
-                onClick={handleCopy}
-                variant="outline"
-                size="sm"
-                className="flex items-center space-x-2 hover:bg-green-50 hover:border-green-300"
-              >
-                {copied ? (
-                  <>
-                    <Check className="h-4 w-4 text-green-600" />
-                    <span className="text-green-600">Copied</span>
-                  </>
-                ) : (
-                  <>
-                    <Copy className="h-4 w-4" />
-                    <span>Copy Code</span>
-                  </>
-                )}
-              </Button>
-            )}
-            <Button
-              onClick={onClose}
-              variant="ghost"
-              size="sm"
-              className="h-9 w-9 p-0 hover:bg-red-50"
-            >
-              <X className="h-5 w-5" />
-            </Button>
-          </div>
-        </div>
+  // Record each search in history once its results are in, whether it was submitted
+  // here, re-run from history or opened from a link.
+  useEffect(() => {
+    if (!activeSearch || search.isFetching || !search.results) return;
 
-        {/* Content */}
-        <div className="flex-1 overflow-auto p-6 bg-gray-50">
-          {match.file && (
-            <div className="mb-6">
-              <Label className="text-sm font-semibold text-gray-700 mb-2 block">File Path:</Label>
-              <div className="bg-white p-3 rounded-md border border-gray-200 shadow-sm">
-                <p className="text-sm font-mono text-gray-800 break-all">
-                  {match.file}
-                </p>
-              </div>
-            </div>
-          )}
-          
-          {match.code ? (
-            <div>
-              <Label className="text-sm font-semibold text-gray-700 mb-3 block flex items-center">
-                <FileText className="h-4 w-4 mr-2" />
-                Code Content:
-              </Label>
-              <div className="rounded-lg overflow-hidden shadow-lg border border-gray-300">
-                <CodeFormatter code={match.code} />
-              </div>
-            </div>
-          ) : match.summary ? (
-            <div>
-              <Label className="text-sm font-semibold text-gray-700 mb-3 block">Summary:</Label>
-              <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
-                <p className="text-gray-800 leading-relaxed">{match.summary}</p>
-              </div>
-            </div>
-          ) : (
-            <div className="text-center py-12 text-gray-500">
-              <FileText className="h-16 w-16 mx-auto mb-4 opacity-30" />
-              <p className="text-lg">No code content available for this match</p>
-            </div>
-          )}
-        </div>
-      </div>
-    </div>
-  );
-};
+    const id = searchHistoryId(activeSearch);
+    if (lastRecordedSearch.current === id) return;
+    lastRecordedSearch.current = id;
+    recordSearch(activeSearch, search.results.matches.length);
+  }, [activeSearch, search.isFetching, search.results, recordSearch]);
 
-export const CodeSearchForm = () => {
-  const [keyword, setKeyword] = useState("");
-  const [selectedRepo, setSelectedRepo] = useState("");
-  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [selectedMatch, setSelectedMatch] = useState<Match | null>(null);
-  const [isPopupOpen, setIsPopupOpen] = useState(false);
-  const { toast } = useToast();
+  useEffect(() => {
+    if (!search.isFetching) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Dialogs, popovers and the command palette prevent the Escape that closes them.
+      if (e.key === "Escape" && !e.defaultPrevented) {
+        cancelSearch();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
 
   const handleSearch = async () => {
     if (!keyword.trim()) {
@@ -200,41 +135,95 @@ export const CodeSearchForm = () => {
       return;
     }
 
-    setIsLoading(true);
-    
-    try {
-      const response = await fetch('https://partnerresource-info-tracker.onrender.com/analyze/v2', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          pr: keyword,
-          force: "false",
-          repoName: selectedRepo === "all-repositories" ? null : selectedRepo
-        })
-      });
+    await runSearch({
+      keyword,
+      repoNames: selectedRepos.length > 0 ? selectedRepos : null,
+      force: forceFresh,
+    });
+  };
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  // Shares the in-flight request with useMultiSearch. Normal searches serve cached
+  // results immediately and revalidate them in the background once stale;
+  // forced searches always go to the analyzer.
+  const fetchRepoSearch = async (params: AnalyzeParams) => {
+    const data = params.force
+      ? await queryClient.fetchQuery({ ...searchQueryOptions(params), staleTime: 0 })
+      : await queryClient.ensureQueryData({ ...searchQueryOptions(params), revalidateIfStale: true });
 
-      const data: SearchResponse = await response.json();
-      setSearchResults(data);
-      
+    if (params.force) {
+      // The cached non-forced results for this query are now known to be outdated.
+      queryClient.removeQueries({ queryKey: searchKeys.detail({ ...params, force: false }), exact: true });
+    }
+
+    return data;
+  };
+
+  const runSearch = async (request: SearchRequest) => {
+    const { keyword } = request;
+    const url = buildSearchUrl(request);
+    navigate(url, { replace: url === `${location.pathname}${location.search}` });
+
+    // Failures are rendered per repository by SearchErrorPanel from the query state.
+    const outcomes = await Promise.allSettled(toAnalyzeParams(request).map(fetchRepoSearch));
+
+    if (outcomes.some((outcome) => outcome.status === "rejected" && isCancelledError(outcome.reason))) {
       toast({
-        title: "Search Complete",
-        description: `Found ${data.matches.length} matches for "${keyword}"`,
+        title: "Search Cancelled",
+        description: `Stopped searching for "${keyword}".`,
       });
-    } catch (error) {
-      console.error('Search error:', error);
+      return;
+    }
+
+    const matchCount = outcomes.reduce(
+      (count, outcome) => count + (outcome.status === "fulfilled" ? outcome.value.matches.length : 0),
+      0
+    );
+    const failedCount = outcomes.filter((outcome) => outcome.status === "rejected").length;
+    if (failedCount === outcomes.length) return;
+
+    toast({
+      title: request.force ? "Fresh Analysis Complete" : "Search Complete",
+      description:
+        `Found ${matchCount} matches for "${keyword}"` +
+        (failedCount > 0 ? ` (${failedCount} of ${outcomes.length} repositories failed)` : ""),
+    });
+  };
+
+  const retryRepoSearch = (params: AnalyzeParams) => {
+    fetchRepoSearch(params).catch(() => {
+      // Surfaced by SearchErrorPanel
+    });
+  };
+
+  const handleReanalyze = () => {
+    if (!activeSearch) return;
+    runSearch({ keyword: activeSearch.keyword, repoNames: activeSearch.repoNames, force: true });
+  };
+
+  // Re-analyzes one repository in place; the other repositories' results stay as they are.
+  const handleReanalyzeRepo = async (repoName: string) => {
+    if (!activeSearch) return;
+    const { keyword } = activeSearch;
+    const reanalyzedRepos = activeSearch.reanalyzedRepos ?? [];
+    if (!activeSearch.force && !reanalyzedRepos.includes(repoName)) {
+      const next = { ...activeSearch, reanalyzedRepos: [...reanalyzedRepos, repoName] };
+      setSearchParams(toSearchParams({ search: next, openMatchKey }), { replace: true });
+    }
+
+    try {
+      const data = await fetchRepoSearch({ keyword, repoName, force: true });
       toast({
-        title: "Search Failed",
-        description: "An error occurred while searching. Please try again.",
-        variant: "destructive",
+        title: "Fresh Analysis Complete",
+        description: `Found ${data.matches.length} matches for "${keyword}" in ${repoName}`,
       });
-    } finally {
-      setIsLoading(false);
+    } catch (error) {
+      if (isCancelledError(error)) {
+        toast({
+          title: "Search Cancelled",
+          description: `Stopped re-analyzing ${repoName}.`,
+        });
+      }
+      // Other failures are surfaced by SearchErrorPanel
     }
   };
 
@@ -244,35 +233,118 @@ export const CodeSearchForm = () => {
     }
   };
 
-  const handleRepoClick = (match: Match) => {
-    setSelectedMatch(match);
-    setIsPopupOpen(true);
+  // Opening and closing matches replaces the history entry so back/forward only steps between searches.
+  const handleRepoClick = (index: number) => {
+    setFocusedIndex(index);
+    setSearchParams(toSearchParams({ search: activeSearch, openMatchKey: keys[index] }), { replace: true });
   };
 
+  // Matches are stepped through in the order they are shown, skipping filtered and collapsed ones.
+  const { visibleOrder } = view;
+  const matchPosition = matchIndex !== null ? visibleOrder.indexOf(matchIndex) : -1;
+
+  const navigateMatch = (delta: number) => {
+    const next = visibleOrder[matchPosition + delta];
+    if (matchPosition !== -1 && next !== undefined) handleRepoClick(next);
+  };
+
+  const focusCard = (index: number) => {
+    setFocusedIndex(index);
+    resultListRef.current?.scrollToMatch(index);
+    const card = cardRefs.current[index];
+    if (card) {
+      card.focus({ preventScroll: true });
+    } else {
+      pendingFocus.current = index;
+    }
+  };
+
+  // j/k (or arrows while a result has focus) move between results, Enter opens the focused one.
+  useEffect(() => {
+    if (matchIndex !== null || visibleOrder.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || hasModifier(e)) return;
+
+      const onCard = cardRefs.current.includes(e.target as HTMLDivElement);
+      const current = focusedIndex !== null ? visibleOrder.indexOf(focusedIndex) : -1;
+      if (e.key === "j" || (onCard && e.key === "ArrowDown")) {
+        e.preventDefault();
+        focusCard(visibleOrder[Math.min(current + 1, visibleOrder.length - 1)]);
+      } else if (e.key === "k" || (onCard && e.key === "ArrowUp")) {
+        e.preventDefault();
+        focusCard(visibleOrder[Math.max(current - 1, 0)]);
+      } else if (e.key === "Enter" && onCard && focusedIndex !== null) {
+        e.preventDefault();
+        handleRepoClick(focusedIndex);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   const closePopup = () => {
-    setIsPopupOpen(false);
-    setSelectedMatch(null);
+    setSearchParams(toSearchParams({ search: activeSearch, openMatchKey: null }), { replace: true });
   };
 
+  const handleCopyLink = async () => {
+    if (!activeSearch) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${buildSearchUrl(activeSearch)}`);
+      toast({
+        title: "Link Copied",
+        description: "A link to this search has been copied to clipboard",
+      });
+    } catch (err) {
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy link to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderResultCard = ({ match, index }: IndexedMatch) => (
+    <ResultCard
+      key={index}
+      ref={(element) => {
+        cardRefs.current[index] = element;
+        if (element && pendingFocus.current === index) {
+          pendingFocus.current = null;
+          element.focus({ preventScroll: true });
+        }
+      }}
+      match={match}
+      keyword={searchResults.keyword}
+      wholeWord={wholeWord}
+      focused={focusedIndex === index}
+      tabbable={focusedIndex === index || (!visibleOrder.includes(focusedIndex) && index === visibleOrder[0])}
+      reanalyzeDisabled={search.isFetching}
+      onFocus={() => setFocusedIndex(index)}
+      onOpen={() => handleRepoClick(index)}
+      onReanalyze={() => handleReanalyzeRepo(match.repo)}
+    />
+  );
+
   return (
-    <div className="space-y-6 min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 p-6">
-      <Card className="border-0 shadow-xl bg-white/95 backdrop-blur-sm">
+    <div className="space-y-6">
+      <Card className="border-0 shadow-xl bg-card/95 backdrop-blur-sm">
         <CardHeader className="text-center pb-6">
           <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
             Partner Resource Search Tool
           </CardTitle>
-          <CardDescription className="text-gray-600 text-lg">
+          <CardDescription className="text-muted-foreground text-lg">
             Search for keywords across your repositories and get detailed explanations
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-3">
-              <Label htmlFor="keyword" className="text-sm font-semibold text-gray-700">
+              <Label htmlFor="keyword" className="text-sm font-semibold text-foreground">
                 Search Keyword
               </Label>
               <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground" />
                 <Input
                   id="keyword"
                   type="text"
@@ -280,125 +352,186 @@ export const CodeSearchForm = () => {
                   value={keyword}
                   onChange={(e) => setKeyword(e.target.value)}
                   onKeyPress={handleKeyPress}
-                  className="pl-11 h-12 text-base border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                  className="pl-11 h-12 text-base border-input focus:border-blue-500 focus:ring-blue-500"
                 />
               </div>
             </div>
 
             <div className="space-y-3">
-              <Label htmlFor="repository" className="text-sm font-semibold text-gray-700">
-                Repository
+              <Label htmlFor="repository" className="text-sm font-semibold text-foreground">
+                Repositories
               </Label>
-              <Select value={selectedRepo} onValueChange={setSelectedRepo}>
-                <SelectTrigger className="w-full h-12 border-gray-300 focus:border-blue-500">
-                  <div className="flex items-center">
-                    <GitBranch className="h-5 w-5 mr-3 text-gray-400" />
-                    <SelectValue placeholder="Select repository" />
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  {REPOSITORIES.map((repo) => (
-                    <SelectItem key={repo} value={repo}>
-                      {repo === "all-repositories" ? "All Repositories" : repo}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <RepositoryMultiSelect
+                id="repository"
+                repositories={repositories}
+                value={selectedRepos}
+                onChange={setSelectedRepos}
+              />
+              {isRepositoryListFallback && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the built-in repository list; the analyzer's list is unavailable.
+                </p>
+              )}
             </div>
           </div>
 
-          <Button 
-            onClick={handleSearch} 
-            disabled={isLoading || !keyword.trim()}
-            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white h-12 text-lg font-semibold shadow-lg transform transition-all duration-200 hover:scale-105"
-            size="lg"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-3 h-5 w-5 animate-spin" />
-                Searching...
-              </>
-            ) : (
-              <>
-                <Search className="mr-3 h-5 w-5" />
-                Search Code
-              </>
+          <div className="flex items-start space-x-3">
+            <Switch id="force-fresh" checked={forceFresh} onCheckedChange={setForceFresh} />
+            <div className="space-y-1">
+              <Label htmlFor="force-fresh" className="text-sm font-semibold text-foreground cursor-pointer">
+                Force fresh analysis
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Ignore the analyzer's cached results and recompute explanations. Slower, but picks up recent repository changes.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button 
+              onClick={handleSearch} 
+              disabled={isLoading || !keyword.trim()}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white h-12 text-lg font-semibold shadow-lg transform transition-all duration-200 hover:scale-105"
+              size="lg"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-3 h-5 w-5 animate-spin" />
+                  {attempt > 1 ? `Retrying... (attempt ${attempt} of ${SEARCH_MAX_RETRIES + 1})` : "Searching..."}
+                  {search.repos.length > 1 && ` ${completedRepoCount}/${search.repos.length} repos`}
+                </>
+              ) : (
+                <>
+                  <Search className="mr-3 h-5 w-5" />
+                  Search Code
+                </>
+              )}
+            </Button>
+            {isLoading && (
+              <Button
+                onClick={cancelSearch}
+                variant="outline"
+                className="h-12 px-6 text-base"
+                size="lg"
+                title="Cancel search (Esc)"
+              >
+                <X className="mr-2 h-5 w-5" />
+                Cancel
+              </Button>
             )}
-          </Button>
+          </div>
         </CardContent>
       </Card>
 
+      {search.repos.length > 1 && (isLoading || failedRepos.length > 0) && (
+        <div className="flex flex-wrap gap-2 bg-card/80 backdrop-blur-sm p-4 rounded-lg shadow-md">
+          {search.repos.map((repo) => (
+            <div
+              key={repo.params.repoName}
+              className="flex items-center space-x-2 text-sm bg-muted px-3 py-1 rounded-full border"
+            >
+              {repo.isFetching ? (
+                <Loader2 className="h-3 w-3 animate-spin text-blue-500" />
+              ) : repo.error ? (
+                <X className="h-3 w-3 text-red-500" />
+              ) : (
+                <Check className="h-3 w-3 text-green-600 dark:text-green-400" />
+              )}
+              <span className="font-mono text-foreground">{repo.params.repoName ?? "All Repositories"}</span>
+              {repo.data && <span className="text-muted-foreground">{repo.data.matches.length}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {failedRepos.map((repo) => (
+        <SearchErrorPanel
+          key={repo.params.repoName ?? ""}
+          error={repo.error}
+          params={repo.params}
+          onRetry={() => retryRepoSearch(repo.params)}
+        />
+      ))}
+
       {searchResults && (
         <div className="space-y-6">
-          <div className="flex items-center justify-between bg-white/80 backdrop-blur-sm p-4 rounded-lg shadow-md">
-            <h2 className="text-2xl font-bold text-gray-800">
-              Search Results for "{searchResults.keyword}"
-            </h2>
-            <div className="text-sm text-gray-600 bg-blue-100 px-3 py-1 rounded-full font-medium">
-              {searchResults.matches.length} matches found
+          <div className="flex items-center justify-between bg-card/80 backdrop-blur-sm p-4 rounded-lg shadow-md">
+            <div className="space-y-1">
+              <h2 className="text-2xl font-bold text-foreground">
+                Search Results for "{searchResults.keyword}"
+              </h2>
+              <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                {freshRepos.length > 0 && freshRepos.length === answeredRepos.length ? (
+                  <Badge className="bg-emerald-600 hover:bg-emerald-600">Fresh analysis</Badge>
+                ) : (
+                  <Badge variant="secondary">Cached analysis</Badge>
+                )}
+                {freshRepos.length > 0 && freshRepos.length < answeredRepos.length && (
+                  <Badge className="bg-emerald-600 hover:bg-emerald-600 font-mono">
+                    Fresh: {freshRepos.map((repo) => repo.params.repoName).join(", ")}
+                  </Badge>
+                )}
+                <span>Updated {formatDistanceToNow(search.dataUpdatedAt, { addSuffix: true })}</span>
+                <span className="flex items-center space-x-2 pl-2">
+                  <Switch id="whole-word" checked={wholeWord} onCheckedChange={setWholeWord} className="scale-75" />
+                  <Label htmlFor="whole-word" className="text-xs font-normal text-muted-foreground cursor-pointer">
+                    Whole word highlighting
+                  </Label>
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              {isRefreshing && (
+                <span className="flex items-center text-xs text-muted-foreground">
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  Refreshing
+                </span>
+              )}
+              <div className="text-sm text-muted-foreground bg-blue-100 dark:bg-blue-950 px-3 py-1 rounded-full font-medium">
+                {searchResults.matches.length} matches found
+              </div>
+              <Button onClick={handleCopyLink} variant="outline" size="sm">
+                <Link2 className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+              <ExportMenu response={searchResults} search={activeSearch} />
+              <Button
+                onClick={handleReanalyze}
+                disabled={search.isFetching}
+                variant="outline"
+                size="sm"
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Re-analyze
+              </Button>
             </div>
           </div>
 
-          <div className="grid gap-4">
-            {searchResults.matches.map((match, index) => (
-              <Card key={index} className="border border-gray-200 hover:shadow-lg transition-all duration-300 transform hover:-translate-y-1 bg-white/95">
-                <CardContent className="p-6">
-                  {match.file ? (
-                    <div className="space-y-4">
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-center space-x-3">
-                          <FileText className="h-5 w-5 text-blue-500" />
-                          <button
-                            onClick={() => handleRepoClick(match)}
-                            className="text-base font-semibold text-blue-600 hover:text-blue-800 hover:underline cursor-pointer transition-colors"
-                          >
-                            {match.repo}
-                          </button>
-                        </div>
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="bg-gray-100 p-3 rounded-md border">
-                          <p className="text-sm font-mono text-gray-700 break-all">
-                            {match.file}
-                          </p>
-                        </div>
-                        <p className="text-gray-700 leading-relaxed">
-                          {match.explanation}
-                        </p>
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="space-y-4">
-                      <div className="flex items-center space-x-3">
-                        <div className="h-3 w-3 bg-green-500 rounded-full shadow-sm"></div>
-                        <button
-                          onClick={() => handleRepoClick(match)}
-                          className="text-base font-semibold text-green-600 hover:text-green-800 hover:underline cursor-pointer transition-colors"
-                        >
-                          Summary - {match.repo}
-                        </button>
-                      </div>
-                    
-                      <div className="bg-green-50 p-4 rounded-lg border border-green-200">
-                        <p className="text-gray-800 leading-relaxed font-medium">
-                          {match.summary}
-                        </p>
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          {view.total > 0 && <ResultsToolbar view={view} />}
+
+          <ResultList
+            // A new search starts from a fresh list instead of holding the previous scroll anchor.
+            key={activeSearch ? searchHistoryId(activeSearch) : ""}
+            ref={resultListRef}
+            view={view}
+            renderCard={renderResultCard}
+          />
+
+          {view.total > 0 && view.items.length === 0 && (
+            <p className="text-center py-12 text-muted-foreground">No matches fit the current filters.</p>
+          )}
         </div>
       )}
 
       {/* Code Popup Modal */}
       <CodePopup 
         match={selectedMatch} 
-        isOpen={isPopupOpen} 
-        onClose={closePopup} 
+        isOpen={selectedMatch !== null} 
+        onClose={closePopup}
+        position={matchPosition !== -1 && selectedMatch ? { index: matchPosition, total: visibleOrder.length } : undefined}
+        onNavigate={navigateMatch}
+        keyword={searchResults?.keyword}
+        wholeWord={wholeWord} 
       />
     </div>
   );
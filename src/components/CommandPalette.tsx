@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { FileText, GitBranch, History, Pin, Search } from "lucide-react";
+import { useTheme } from "next-themes";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { DialogTitle } from "@/components/ui/dialog";
+import { useRepositories } from "@/hooks/use-repositories";
+import { useSearchHistory } from "@/hooks/use-search-history";
+import { useMultiSearch } from "@/hooks/use-search";
+import type { SearchRequest } from "@/lib/search-api";
+import { buildSearchUrl, matchKeys, parseSearchParams } from "@/lib/search-url";
+import { THEME_OPTIONS } from "@/lib/theme";
+
+// cmdk renders every item before filtering, so matches are filtered here and only this many rendered.
+const MAX_RENDERED_MATCHES = 200;
+const RECENT_SEARCH_COUNT = 5;
+
+const describeRepos = (repoNames: string[] | null) => (repoNames ? repoNames.join(", ") : "All Repositories");
+
+/** Ctrl/Cmd+K palette for running searches, reopening history, switching theme and opening loaded matches. */
+export const CommandPalette = () => {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { setTheme } = useTheme();
+  const { repositories } = useRepositories();
+  const { entries } = useSearchHistory();
+
+  const { search: activeSearch } = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+  // Reads the search page's cached results; opening the palette never re-runs the analyzer.
+  const { results } = useMultiSearch(open ? activeSearch : null, { enabled: false });
+
+  const pinnedSearches = entries.filter((entry) => entry.pinned);
+  const recentSearches = entries.filter((entry) => !entry.pinned).slice(0, RECENT_SEARCH_COUNT);
+  const keyword = input.trim();
+  const loadedMatches = results?.matches ?? [];
+  const loadedKeys = matchKeys(loadedMatches);
+  const terms = keyword.toLowerCase().split(/\s+/).filter(Boolean);
+  const matchingIndexes = loadedMatches.flatMap((match, index) => {
+    const text = `${match.repo} ${match.file ?? "Repository summary"}`.toLowerCase();
+    return terms.every((term) => text.includes(term)) ? [index] : [];
+  });
+  const shownMatches = matchingIndexes
+    .slice(0, MAX_RENDERED_MATCHES)
+    .map((index) => ({ match: loadedMatches[index], key: loadedKeys[index] }));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setInput("");
+  };
+
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  const runSearch = (search: SearchRequest) => run(() => navigate(buildSearchUrl(search)));
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <CommandInput
+        value={input}
+        onValueChange={setInput}
+        placeholder="Type a keyword to search, or a command..."
+      />
+      <CommandList className="max-h-[420px]">
+        {shownMatches.length === 0 && <CommandEmpty>No matching commands.</CommandEmpty>}
+
+        {keyword && (
+          <CommandGroup heading={`Search for "${keyword}"`}>
+            {/* The keyword is part of each value so cmdk's filter always keeps these items. */}
+            <CommandItem
+              value={`search ${keyword} all repositories`}
+              onSelect={() => runSearch({ keyword, repoNames: null, force: false })}
+            >
+              <Search className="mr-2 h-4 w-4" />
+              All Repositories
+              <CommandShortcut>↵</CommandShortcut>
+            </CommandItem>
+            {repositories.map((repository) => (
+              <CommandItem
+                key={repository.name}
+                value={`search ${keyword} ${repository.name}`}
+                onSelect={() => runSearch({ keyword, repoNames: [repository.name], force: false })}
+              >
+                <GitBranch className="mr-2 h-4 w-4" />
+                <span className="font-mono">{repository.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {shownMatches.length > 0 && activeSearch && (
+          <CommandGroup
+            // Already filtered above, so cmdk's own filter is bypassed.
+            forceMount
+            heading={
+              `Matches for "${activeSearch.keyword}"` +
+              (matchingIndexes.length > shownMatches.length
+                ? ` (first ${shownMatches.length} of ${matchingIndexes.length}; type to narrow)`
+                : "")
+            }
+          >
+            {shownMatches.map(({ match, key }) => (
+              <CommandItem
+                key={key}
+                forceMount
+                value={`match ${key}`}
+                onSelect={() => run(() => navigate(buildSearchUrl(activeSearch, key), { replace: true }))}
+              >
+                <FileText className="mr-2 h-4 w-4 shrink-0" />
+                <span className="truncate">
+                  <span className="font-medium">{match.repo}</span>
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">{match.file ?? "Repository summary"}</span>
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {pinnedSearches.length > 0 && (
+          <CommandGroup heading="Pinned searches">
+            {pinnedSearches.map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={`pinned ${entry.keyword} ${describeRepos(entry.repoNames)}`}
+                onSelect={() => runSearch({ keyword: entry.keyword, repoNames: entry.repoNames, force: false })}
+              >
+                <Pin className="mr-2 h-4 w-4" />
+                <span className="font-mono">{entry.keyword}</span>
+                <span className="ml-2 truncate text-xs text-muted-foreground">{describeRepos(entry.repoNames)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {recentSearches.length > 0 && (
+          <CommandGroup heading="Recent searches">
+            {recentSearches.map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={`recent ${entry.keyword} ${describeRepos(entry.repoNames)}`}
+                onSelect={() => runSearch({ keyword: entry.keyword, repoNames: entry.repoNames, force: false })}
+              >
+                <History className="mr-2 h-4 w-4" />
+                <span className="font-mono">{entry.keyword}</span>
+                <span className="ml-2 truncate text-xs text-muted-foreground">{describeRepos(entry.repoNames)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        <CommandSeparator />
+        <CommandGroup heading="Theme">
+          {THEME_OPTIONS.map(({ value, label, icon: Icon }) => (
+            <CommandItem key={value} value={`theme ${label}`} onSelect={() => run(() => setTheme(value))}>
+              <Icon className="mr-2 h-4 w-4" />
+              {label} theme
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
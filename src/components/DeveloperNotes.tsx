@@ -0,0 +1,27 @@
+import { ChevronDown, Wrench } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MarkdownText } from "@/components/MarkdownText";
+import type { KeywordMatchOptions } from "@/lib/keyword-match";
+
+interface DeveloperNotesProps extends KeywordMatchOptions {
+  /** The match's `DevDescriptionSummary`. */
+  notes: string;
+  keyword?: string;
+  defaultOpen?: boolean;
+}
+
+/** Collapsible section for the analyzer's developer-oriented description of a match. */
+export const DeveloperNotes = ({ notes, keyword, wholeWord, defaultOpen = false }: DeveloperNotesProps) => (
+  <Collapsible defaultOpen={defaultOpen} className="rounded-md border border-amber-200 dark:border-amber-900 bg-amber-50/60 dark:bg-amber-950/30">
+    <CollapsibleTrigger className="group flex w-full items-center justify-between px-3 py-2 text-sm font-semibold text-amber-900 dark:text-amber-200">
+      <span className="flex items-center">
+        <Wrench className="mr-2 h-4 w-4" />
+        Developer notes
+      </span>
+      <ChevronDown className="h-4 w-4 transition-transform duration-200 group-data-[state=open]:rotate-180" />
+    </CollapsibleTrigger>
+    <CollapsibleContent className="border-t border-amber-200 dark:border-amber-900 px-3 py-2">
+      <MarkdownText text={notes} keyword={keyword} wholeWord={wholeWord} className="text-foreground" />
+    </CollapsibleContent>
+  </Collapsible>
+);
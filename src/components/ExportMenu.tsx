@@ -0,0 +1,67 @@
+import { Download, FileCode2, FileJson, FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { buildExport, type ExportFormat } from "@/lib/result-export";
+import type { SearchRequest, SearchResponse } from "@/lib/search-api";
+
+interface ExportMenuProps {
+  response: SearchResponse;
+  search: SearchRequest | null;
+}
+
+export const ExportMenu = ({ response, search }: ExportMenuProps) => {
+  const { toast } = useToast();
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    try {
+      const file = buildExport(exportFormat, response, search);
+      downloadFile(file);
+      toast({
+        title: "Export Ready",
+        description: `Saved ${file.filename}`,
+      });
+    } catch (err) {
+      toast({
+        title: "Export Failed",
+        description: "Failed to export the search results",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={response.matches.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export {response.matches.length} matches</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleExport("csv")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          CSV spreadsheet
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("json")}>
+          <FileJson className="mr-2 h-4 w-4" />
+          Raw JSON response
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("markdown")}>
+          <FileCode2 className="mr-2 h-4 w-4" />
+          Markdown report
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,21 @@
+import { KEYWORD_MARK_CLASS, splitByKeyword, type KeywordMatchOptions } from "@/lib/keyword-match";
+
+interface HighlightedTextProps extends KeywordMatchOptions {
+  text: string;
+  keyword?: string;
+}
+
+/** Renders `text` with every occurrence of `keyword` wrapped in a `<mark>`. */
+export const HighlightedText = ({ text, keyword, wholeWord }: HighlightedTextProps) => (
+  <>
+    {splitByKeyword(text, keyword, { wholeWord }).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className={KEYWORD_MARK_CLASS}>
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    )}
+  </>
+);
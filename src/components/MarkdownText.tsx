@@ -0,0 +1,74 @@
+import { Children, createElement, useMemo, type ReactNode } from "react";
+import Markdown, { type Components } from "react-markdown";
+import { HighlightedText } from "@/components/HighlightedText";
+import { detectLanguage, highlightCode, languageFromFence } from "@/lib/code";
+import { markKeywordInHtml, type KeywordMatchOptions } from "@/lib/keyword-match";
+import { cn } from "@/lib/utils";
+
+// Elements whose text is searched for the keyword; code is handled separately.
+const TEXT_ELEMENTS = ["p", "li", "strong", "em", "del", "h1", "h2", "h3", "h4", "h5", "h6", "th", "td"] as const;
+
+const FENCE_LANGUAGE = /language-([\w+#-]+)/;
+
+const buildComponents = (keyword: string | undefined, options: KeywordMatchOptions): Components => {
+  const markKeyword = (children: ReactNode) =>
+    Children.map(children, (child) =>
+      typeof child === "string" ? <HighlightedText text={child} keyword={keyword} {...options} /> : child
+    );
+
+  return {
+    ...Object.fromEntries(
+      TEXT_ELEMENTS.map((tag) => [tag, ({ node, children, ...props }) => createElement(tag, props, markKeyword(children))])
+    ),
+    a: ({ node, children, ...props }) => (
+      <a {...props} target="_blank" rel="noopener noreferrer">
+        {markKeyword(children)}
+      </a>
+    ),
+    // Inline code only; fenced blocks are rendered whole by `pre` below.
+    code: ({ node, className, children, ...props }) => (
+      <code className={cn("rounded bg-muted px-1 py-0.5 font-normal before:content-none after:content-none", className)} {...props}>
+        {markKeyword(children)}
+      </code>
+    ),
+    pre: ({ node }) => {
+      const code = node?.children[0];
+      if (code?.type !== "element" || code.tagName !== "code") return null;
+
+      const source = code.children.map((child) => (child.type === "text" ? child.value : "")).join("").replace(/\n$/, "");
+      const fenceLanguage = FENCE_LANGUAGE.exec(String(code.properties.className ?? ""))?.[1];
+      const language = languageFromFence(fenceLanguage) ?? detectLanguage(source);
+      // highlightCode escapes the source, so injecting its output cannot run markup from the analyzer.
+      const html = markKeywordInHtml(highlightCode(source, language), keyword, options);
+
+      return (
+        <pre className="hljs-theme not-prose my-3 overflow-auto rounded-md border bg-slate-50 p-3 text-sm leading-relaxed text-slate-800 dark:bg-gray-900 dark:text-gray-100">
+          <code className="font-mono" dangerouslySetInnerHTML={{ __html: html }} />
+        </pre>
+      );
+    },
+  };
+};
+
+interface MarkdownTextProps extends KeywordMatchOptions {
+  text: string;
+  keyword?: string;
+  className?: string;
+}
+
+/**
+ * Renders analyzer-written Markdown (explanations, summaries) with the keyword
+ * highlighted. Raw HTML in the text is never rendered and unsafe link
+ * protocols are stripped.
+ */
+export const MarkdownText = ({ text, keyword, wholeWord, className }: MarkdownTextProps) => {
+  const components = useMemo(() => buildComponents(keyword, { wholeWord }), [keyword, wholeWord]);
+
+  return (
+    <div className={cn("prose prose-sm max-w-none text-foreground dark:prose-invert prose-p:leading-relaxed", className)}>
+      <Markdown components={components} skipHtml>
+        {text}
+      </Markdown>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, GitBranch } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { Repository } from "@/lib/search-api";
+
+const CheckBox = ({ checked }: { checked: boolean }) => (
+  <span
+    className={cn(
+      "mr-3 flex h-4 w-4 shrink-0 items-center justify-center rounded-sm border border-primary",
+      checked ? "bg-primary text-primary-foreground" : "opacity-50"
+    )}
+  >
+    {checked && <Check className="h-3 w-3" />}
+  </span>
+);
+
+interface RepositoryMultiSelectProps {
+  id?: string;
+  repositories: Repository[];
+  /** Selected repository names; empty means "All Repositories". */
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+export const RepositoryMultiSelect = ({ id, repositories, value, onChange }: RepositoryMultiSelectProps) => {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (name: string) => {
+    onChange(value.includes(name) ? value.filter((repo) => repo !== name) : [...value, name]);
+  };
+
+  const triggerLabel =
+    value.length === 0
+      ? "All Repositories"
+      : value.length <= 2
+        ? value.join(", ")
+        : `${value.length} repositories`;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full h-12 justify-between border-input font-normal"
+        >
+          <span className="flex items-center truncate">
+            <GitBranch className="h-5 w-5 mr-3 text-muted-foreground" />
+            <span className="truncate">{triggerLabel}</span>
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Filter repositories..." />
+          <CommandList>
+            <CommandEmpty>No repository found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="All Repositories" onSelect={() => onChange([])}>
+                <CheckBox checked={value.length === 0} />
+                All Repositories
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+            <CommandGroup heading="Repositories">
+              {repositories.map((repo) => (
+                <CommandItem
+                  key={repo.name}
+                  value={repo.name}
+                  disabled={!repo.indexed}
+                  onSelect={() => toggle(repo.name)}
+                >
+                  <CheckBox checked={value.includes(repo.name)} />
+                  <div className="flex flex-col">
+                    <span>{repo.name}</span>
+                    {!repo.indexed ? (
+                      <span className="text-xs text-muted-foreground">Not indexed yet</span>
+                    ) : repo.lastIndexedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        Indexed {formatDistanceToNow(new Date(repo.lastIndexedAt), { addSuffix: true })}
+                      </span>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
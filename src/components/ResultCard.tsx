@@ -0,0 +1,117 @@
+import { forwardRef } from "react";
+import { FileText, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { BookmarkButton } from "@/components/BookmarkButton";
+import { DeveloperNotes } from "@/components/DeveloperNotes";
+import { HighlightedText } from "@/components/HighlightedText";
+import { MarkdownText } from "@/components/MarkdownText";
+import { cn } from "@/lib/utils";
+import type { Match } from "@/lib/search-api";
+
+interface ResultCardProps {
+  match: Match;
+  keyword: string;
+  wholeWord?: boolean;
+  /** Draws the keyboard focus ring. */
+  focused?: boolean;
+  /** Whether the card is the results list's tab stop (roving tabindex). */
+  tabbable?: boolean;
+  reanalyzeDisabled?: boolean;
+  onFocus: () => void;
+  onOpen: () => void;
+  onReanalyze: () => void;
+}
+
+export const ResultCard = forwardRef<HTMLDivElement, ResultCardProps>(
+  ({ match, keyword, wholeWord, focused, tabbable, reanalyzeDisabled, onFocus, onOpen, onReanalyze }, ref) => {
+    const actions = (
+      <div className="flex items-center space-x-1">
+        <BookmarkButton match={match} keyword={keyword} />
+        <Button
+          onClick={onReanalyze}
+          disabled={reanalyzeDisabled}
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground"
+          title={`Re-analyze "${keyword}" in ${match.repo}`}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Re-analyze
+        </Button>
+      </div>
+    );
+
+    const developerNotes = match.DevDescriptionSummary && (
+      <DeveloperNotes notes={match.DevDescriptionSummary} keyword={keyword} wholeWord={wholeWord} />
+    );
+
+    return (
+      <Card
+        ref={ref}
+        tabIndex={tabbable ? 0 : -1}
+        onFocus={onFocus}
+        aria-label={`${match.file ? "Match" : "Summary"} in ${match.repo}${match.file ? `: ${match.file}` : ""}`}
+        className={cn(
+          "border hover:shadow-lg transition-all duration-300 transform hover:-translate-y-1 bg-card/95 focus:outline-none",
+          focused && "ring-2 ring-blue-500"
+        )}
+      >
+        <CardContent className="p-6">
+          {match.file ? (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-3">
+                  <FileText className="h-5 w-5 text-blue-500" />
+                  <button
+                    onClick={onOpen}
+                    className="text-base font-semibold text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:underline cursor-pointer transition-colors"
+                  >
+                    {match.repo}
+                  </button>
+                </div>
+                {actions}
+              </div>
+              
+              <div className="space-y-3">
+                <div className="bg-muted p-3 rounded-md border">
+                  <p className="text-sm font-mono text-foreground break-all">
+                    <HighlightedText text={match.file} keyword={keyword} wholeWord={wholeWord} />
+                  </p>
+                </div>
+                <MarkdownText text={match.explanation ?? ""} keyword={keyword} wholeWord={wholeWord} />
+                {developerNotes}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="h-3 w-3 bg-green-500 rounded-full shadow-sm"></div>
+                  <button
+                    onClick={onOpen}
+                    className="text-base font-semibold text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300 hover:underline cursor-pointer transition-colors"
+                  >
+                    Summary - {match.repo}
+                  </button>
+                </div>
+                {actions}
+              </div>
+            
+              <div className="bg-green-50 dark:bg-green-950/40 p-4 rounded-lg border border-green-200 dark:border-green-900">
+                <MarkdownText
+                  text={match.summary ?? ""}
+                  keyword={keyword}
+                  wholeWord={wholeWord}
+                  className="text-foreground"
+                />
+              </div>
+              {developerNotes}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+);
+ResultCard.displayName = "ResultCard";
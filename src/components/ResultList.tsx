@@ -0,0 +1,136 @@
+import { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState, type Key, type ReactNode } from "react";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import { ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { ResultView } from "@/hooks/use-result-view";
+import type { IndexedMatch, ResultGroup } from "@/lib/result-view";
+import { cn } from "@/lib/utils";
+
+// Starting guesses only; every row is measured once it renders.
+const GROUP_ROW_HEIGHT = 72;
+const MATCH_ROW_HEIGHT = 220;
+
+type ResultRow =
+  | { kind: "group"; key: string; group: ResultGroup; collapsed: boolean }
+  | { kind: "match"; key: string; item: IndexedMatch };
+
+const toRows = (items: IndexedMatch[], groups: ResultGroup[] | null, collapsedRepos: string[]): ResultRow[] => {
+  const matchRow = (item: IndexedMatch): ResultRow => ({ kind: "match", key: `match-${item.index}`, item });
+  if (!groups) return items.map(matchRow);
+
+  return groups.flatMap((group) => {
+    const collapsed = collapsedRepos.includes(group.repo);
+    const header: ResultRow = { kind: "group", key: `group-${group.repo}`, group, collapsed };
+    return collapsed ? [header] : [header, ...group.items.map(matchRow)];
+  });
+};
+
+export interface ResultListHandle {
+  /** Scrolls a match into view, mounting its card if it was outside the window. */
+  scrollToMatch: (index: number) => void;
+}
+
+interface ResultListProps {
+  view: ResultView;
+  renderCard: (item: IndexedMatch) => ReactNode;
+}
+
+/**
+ * Windowed result list: only the cards near the viewport are mounted, so searches
+ * returning thousands of matches stay responsive. The page itself scrolls.
+ */
+export const ResultList = forwardRef<ResultListHandle, ResultListProps>(({ view, renderCard }, ref) => {
+  const { items, groups, collapsedRepos, setCollapsedRepos } = view;
+  const rows = useMemo(() => toRows(items, groups, collapsedRepos), [items, groups, collapsedRepos]);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+  // The row at the top of the viewport and how far its top sits from the viewport's top.
+  const anchor = useRef<{ key: Key; offset: number } | null>(null);
+
+  const virtualizer = useWindowVirtualizer({
+    count: rows.length,
+    estimateSize: (index) => (rows[index].kind === "group" ? GROUP_ROW_HEIGHT : MATCH_ROW_HEIGHT),
+    getItemKey: (index) => rows[index].key,
+    overscan: 5,
+    scrollMargin,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+
+  // The list's distance from the top of the page moves as panels above it appear and disappear.
+  useLayoutEffect(() => {
+    const update = () => setScrollMargin((listRef.current?.getBoundingClientRect().top ?? 0) + window.scrollY);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    scrollToMatch: (index) => {
+      const rowIndex = rows.findIndex((row) => row.kind === "match" && row.item.index === index);
+      if (rowIndex !== -1) virtualizer.scrollToIndex(rowIndex, { align: "auto" });
+    },
+  }));
+
+  // When filters, sorting or grouping change, keep the match that was at the top of the
+  // viewport in place instead of letting the page jump.
+  const previousRows = useRef(rows);
+  useLayoutEffect(() => {
+    if (previousRows.current === rows) return;
+    previousRows.current = rows;
+
+    const current = anchor.current;
+    const rowIndex = current ? rows.findIndex((row) => row.key === current.key) : -1;
+    const start = virtualizer.measurementsCache[rowIndex]?.start;
+    if (start !== undefined) virtualizer.scrollToOffset(start - current.offset);
+  }, [rows, virtualizer]);
+
+  useEffect(() => {
+    const scrollOffset = virtualizer.scrollOffset ?? 0;
+    const top = scrollOffset > scrollMargin ? virtualItems.find((item) => item.end > scrollOffset) : undefined;
+    anchor.current = top ? { key: top.key, offset: top.start - scrollOffset } : null;
+  });
+
+  const toggleGroup = (repo: string) => {
+    setCollapsedRepos(
+      collapsedRepos.includes(repo) ? collapsedRepos.filter((name) => name !== repo) : [...collapsedRepos, repo]
+    );
+  };
+
+  return (
+    <div ref={listRef} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+      {virtualItems.map((virtualItem) => {
+        const row = rows[virtualItem.index];
+        return (
+          <div
+            key={virtualItem.key}
+            data-index={virtualItem.index}
+            ref={virtualizer.measureElement}
+            className="absolute left-0 top-0 w-full pb-4"
+            style={{ transform: `translateY(${virtualItem.start - scrollMargin}px)` }}
+          >
+            {row.kind === "group" ? (
+              <button
+                type="button"
+                onClick={() => toggleGroup(row.group.repo)}
+                aria-expanded={!row.collapsed}
+                className="flex w-full items-center justify-between bg-card/80 backdrop-blur-sm px-4 py-4 rounded-lg shadow-md font-medium"
+              >
+                <span className="flex items-center space-x-3">
+                  <span className="font-mono text-foreground">{row.group.repo}</span>
+                  <Badge variant="secondary">{row.group.items.length}</Badge>
+                </span>
+                <ChevronDown
+                  className={cn("h-4 w-4 shrink-0 transition-transform duration-200", !row.collapsed && "rotate-180")}
+                />
+              </button>
+            ) : (
+              renderCard(row.item)
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+ResultList.displayName = "ResultList";
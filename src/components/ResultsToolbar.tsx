@@ -0,0 +1,127 @@
+import { FilterX, FolderTree, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ResultView } from "@/hooks/use-result-view";
+import { EMPTY_RESULT_FILTERS, hasActiveFilters, type MatchKind, type ResultSort } from "@/lib/result-view";
+
+const KIND_LABELS: Record<MatchKind, string> = {
+  code: "Code matches",
+  summary: "Summaries",
+};
+
+const SORT_LABELS: Record<ResultSort, string> = {
+  relevance: "Analyzer order",
+  repo: "Repository",
+  file: "File path",
+};
+
+const FacetCount = ({ count }: { count: number }) => (
+  <span className="ml-1.5 rounded-full bg-muted px-1.5 text-xs tabular-nums text-muted-foreground">{count}</span>
+);
+
+export const ResultsToolbar = ({ view }: { view: ResultView }) => {
+  const { filters, setFilters, facets } = view;
+  const extensions = Array.from(facets.extensions).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="space-y-4 bg-card/80 backdrop-blur-sm p-4 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="result-sort" className="text-sm text-muted-foreground">
+            Sort by
+          </Label>
+          <Select value={view.sort} onValueChange={(value) => view.setSort(value as ResultSort)}>
+            <SelectTrigger id="result-sort" className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as ResultSort[]).map((sort) => (
+                <SelectItem key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch id="group-by-repo" checked={view.groupByRepository} onCheckedChange={view.setGroupByRepository} />
+          <Label htmlFor="group-by-repo" className="flex items-center text-sm text-muted-foreground cursor-pointer">
+            <FolderTree className="mr-1 h-4 w-4" />
+            Group by repository
+          </Label>
+        </div>
+
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={filters.kinds}
+          onValueChange={(kinds) => setFilters({ ...filters, kinds: kinds as MatchKind[] })}
+          aria-label="Filter by kind"
+        >
+          {(Object.keys(KIND_LABELS) as MatchKind[]).map((kind) => (
+            <ToggleGroupItem key={kind} value={kind} className="h-8 border">
+              {KIND_LABELS[kind]}
+              <FacetCount count={facets.kinds.get(kind) ?? 0} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            placeholder="Filter results"
+            aria-label="Filter results by text, including developer notes"
+            className="h-9 w-56 pl-9 text-sm"
+          />
+        </div>
+
+        <Input
+          value={filters.directoryPrefix}
+          onChange={(e) => setFilters({ ...filters, directoryPrefix: e.target.value })}
+          placeholder="Directory prefix, e.g. src/main/java"
+          aria-label="Filter by directory prefix"
+          className="h-9 w-64 font-mono text-sm"
+        />
+
+        {hasActiveFilters(filters) && (
+          <Button onClick={() => setFilters(EMPTY_RESULT_FILTERS)} variant="ghost" size="sm">
+            <FilterX className="mr-2 h-4 w-4" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {extensions.length > 0 && (
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={filters.extensions}
+          onValueChange={(selected) => setFilters({ ...filters, extensions: selected })}
+          className="flex-wrap justify-start"
+          aria-label="Filter by file extension"
+        >
+          {extensions.map(([extension, count]) => (
+            <ToggleGroupItem key={extension} value={extension} className="h-7 border font-mono text-xs">
+              {extension}
+              <FacetCount count={count} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {hasActiveFilters(filters) && (
+        <p className="text-xs text-muted-foreground">
+          Showing {view.items.length} of {view.total} matches
+        </p>
+      )}
+    </div>
+  );
+};
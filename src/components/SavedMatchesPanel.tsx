@@ -0,0 +1,228 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { Bookmark as BookmarkIcon, Download, ExternalLink, FileText, Search, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CodePopup } from "@/components/CodePopup";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useToast } from "@/hooks/use-toast";
+import { parseBookmarks, parseTags, serializeBookmarks, type Bookmark } from "@/lib/bookmarks";
+import { downloadFile } from "@/lib/download";
+import { describeImportError } from "@/lib/import-file";
+import { buildSearchUrl } from "@/lib/search-url";
+
+const matchesFilter = (bookmark: Bookmark, filter: string) => {
+  const needle = filter.toLowerCase();
+  return [bookmark.repo, bookmark.match.file ?? "", bookmark.keyword, bookmark.notes, ...bookmark.tags].some((value) =>
+    value.toLowerCase().includes(needle)
+  );
+};
+
+const SavedMatchItem = ({
+  bookmark,
+  onOpen,
+  onTagClick,
+}: {
+  bookmark: Bookmark;
+  onOpen: () => void;
+  onTagClick: (tag: string) => void;
+}) => {
+  const { updateBookmark, removeBookmark } = useBookmarks();
+  // Edited locally and saved on blur, so typing does not rewrite storage on every key.
+  const [notes, setNotes] = useState(bookmark.notes);
+  const [tags, setTags] = useState(bookmark.tags.join(", "));
+  const { match } = bookmark;
+
+  const saveTags = () => {
+    const parsed = parseTags(tags);
+    setTags(parsed.join(", "));
+    if (parsed.join(",") !== bookmark.tags.join(",")) updateBookmark(bookmark.id, { tags: parsed });
+  };
+
+  return (
+    <li className="rounded-md border border-border bg-card p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <button onClick={onOpen} className="min-w-0 text-left" title="Open match">
+          <p className="flex items-center text-base font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+            <FileText className="h-4 w-4 mr-2 flex-shrink-0" />
+            {match.file ? match.repo : `Summary - ${match.repo}`}
+          </p>
+          {match.file && <p className="text-sm font-mono text-muted-foreground break-all">{match.file}</p>}
+        </button>
+        <div className="flex flex-shrink-0 items-center space-x-1">
+          <Button onClick={onOpen} variant="ghost" size="sm" className="h-8 px-2" aria-label="Open match">
+            <ExternalLink className="h-4 w-4" />
+          </Button>
+          <Button asChild variant="ghost" size="sm" className="h-8 px-2" aria-label="Search again">
+            <Link to={buildSearchUrl({ keyword: bookmark.keyword, repoNames: [bookmark.repo], force: false })}>
+              <Search className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button
+            onClick={() => removeBookmark(bookmark.id)}
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 hover:bg-red-50 dark:hover:bg-red-950/40"
+            aria-label="Remove bookmark"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="secondary" className="font-mono">
+          {bookmark.keyword}
+        </Badge>
+        {bookmark.tags.map((tag) => (
+          <Badge key={tag} variant="outline" className="cursor-pointer" onClick={() => onTagClick(tag)}>
+            #{tag}
+          </Badge>
+        ))}
+        <span>Saved {formatDistanceToNow(bookmark.createdAt, { addSuffix: true })}</span>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[2fr_1fr]">
+        <div className="space-y-1">
+          <Label htmlFor={`notes-${bookmark.id}`} className="text-xs">
+            Notes
+          </Label>
+          <Textarea
+            id={`notes-${bookmark.id}`}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={() => notes !== bookmark.notes && updateBookmark(bookmark.id, { notes })}
+            placeholder="Why this match matters..."
+            className="min-h-[60px] text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`tags-${bookmark.id}`} className="text-xs">
+            Tags
+          </Label>
+          <Input
+            id={`tags-${bookmark.id}`}
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onBlur={saveTags}
+            placeholder="auth, follow-up"
+            className="text-sm"
+          />
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export const SavedMatchesPanel = () => {
+  const { bookmarks, mergeBookmarks } = useBookmarks();
+  const { toast } = useToast();
+  const [filter, setFilter] = useState("");
+  const [openBookmark, setOpenBookmark] = useState<Bookmark | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const shown = filter.trim() ? bookmarks.filter((bookmark) => matchesFilter(bookmark, filter.trim())) : bookmarks;
+
+  const handleExport = () => {
+    downloadFile({
+      content: serializeBookmarks(bookmarks),
+      filename: `saved-matches-${format(new Date(), "yyyy-MM-dd")}.json`,
+      mimeType: "application/json",
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const incoming = parseBookmarks(await file.text());
+      const added = mergeBookmarks(incoming);
+      toast({
+        title: "Saved Matches Imported",
+        description: `Added ${added} of ${incoming.length} from ${file.name}; matches you already had were kept as they are.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: describeImportError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-card/95 backdrop-blur-sm">
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center text-lg text-foreground">
+              <BookmarkIcon className="h-5 w-5 mr-2 text-blue-500" />
+              Saved matches
+              {bookmarks.length > 0 && <Badge variant="secondary" className="ml-2">{bookmarks.length}</Badge>}
+            </CardTitle>
+            <CardDescription>Export the collection to share it with teammates; importing adds to yours.</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button onClick={handleExport} disabled={bookmarks.length === 0} variant="outline" size="sm">
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            <Button onClick={() => importInput.current?.click()} variant="outline" size="sm">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <input
+              ref={importInput}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+        {bookmarks.length > 0 && (
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by repository, file, keyword, notes or tag"
+            aria-label="Filter saved matches"
+          />
+        )}
+      </CardHeader>
+      <CardContent>
+        {bookmarks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nothing saved yet. Use the bookmark button on a search result to keep it here.
+          </p>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No saved matches match "{filter.trim()}".</p>
+        ) : (
+          <ul className="space-y-3">
+            {shown.map((bookmark) => (
+              <SavedMatchItem
+                key={bookmark.id}
+                bookmark={bookmark}
+                onOpen={() => setOpenBookmark(bookmark)}
+                onTagClick={setFilter}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <CodePopup
+        match={openBookmark?.match ?? null}
+        isOpen={openBookmark !== null}
+        onClose={() => setOpenBookmark(null)}
+        keyword={openBookmark?.keyword}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { AlertTriangle, Check, Clock, Copy, FileWarning, RotateCcw, ServerCrash, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SearchApiError,
+  SearchHttpError,
+  SearchResponseValidationError,
+  type AnalyzeParams,
+  type SearchErrorKind,
+} from "@/lib/search-api";
+
+const ERROR_COPY: Record<SearchErrorKind | "unknown", { title: string; description: string; icon: typeof AlertTriangle }> = {
+  offline: {
+    title: "You're offline",
+    description: "Check your internet connection and try again.",
+    icon: WifiOff,
+  },
+  network: {
+    title: "Analyzer unreachable",
+    description: "The analyzer could not be reached. It may be down or blocked by the network.",
+    icon: WifiOff,
+  },
+  timeout: {
+    title: "Search timed out",
+    description: "The analyzer took too long to respond. It may be starting up; retrying usually helps.",
+    icon: Clock,
+  },
+  client: {
+    title: "Request rejected",
+    description: "The analyzer rejected the search request.",
+    icon: AlertTriangle,
+  },
+  server: {
+    title: "Analyzer error",
+    description: "The analyzer failed while processing the search.",
+    icon: ServerCrash,
+  },
+  schema: {
+    title: "Backend returned unexpected data",
+    description: "The response did not match the expected format. Offending fields:",
+    icon: FileWarning,
+  },
+  unknown: {
+    title: "Search failed",
+    description: "An unexpected error occurred while searching.",
+    icon: AlertTriangle,
+  },
+};
+
+const buildDiagnostics = (error: Error, params: AnalyzeParams | null) => {
+  const base = error instanceof SearchApiError
+    ? { kind: error.kind, ...error.diagnostics }
+    : { kind: "unknown", params, timestamp: new Date().toISOString() };
+
+  return JSON.stringify({ ...base, message: error.message, userAgent: navigator.userAgent }, null, 2);
+};
+
+interface SearchErrorPanelProps {
+  error: Error;
+  params: AnalyzeParams | null;
+  onRetry: () => void;
+}
+
+export const SearchErrorPanel = ({ error, params, onRetry }: SearchErrorPanelProps) => {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const kind = error instanceof SearchApiError ? error.kind : "unknown";
+  const { title, description, icon: Icon } = ERROR_COPY[kind];
+
+  const handleCopyDiagnostics = async () => {
+    try {
+      await navigator.clipboard.writeText(buildDiagnostics(error, params));
+      setCopied(true);
+      toast({
+        title: "Diagnostics Copied",
+        description: "Paste them into your bug report.",
+      });
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy diagnostics to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card role="alert" className="border border-red-200 dark:border-red-900 bg-card/95 shadow-md">
+      <CardContent className="p-6">
+        <div className="flex items-start space-x-4">
+          <Icon className="h-6 w-6 flex-shrink-0 text-red-500" />
+          <div className="flex-1 space-y-3">
+            <div>
+              <h3 className="text-lg font-semibold text-foreground">
+                {title}
+                {params?.repoName && (
+                  <span className="ml-2 text-sm font-mono font-normal text-muted-foreground">in {params.repoName}</span>
+                )}
+              </h3>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+
+            {error instanceof SearchHttpError && (
+              <div className="bg-red-50 dark:bg-red-950/40 p-3 rounded-md border border-red-200 dark:border-red-900">
+                <p className="text-xs font-semibold text-red-700 dark:text-red-400 mb-1">
+                  Status {error.status}
+                </p>
+                {error.serverMessage && (
+                  <p className="text-sm font-mono text-red-800 dark:text-red-300 break-words">{error.serverMessage}</p>
+                )}
+              </div>
+            )}
+
+            {error instanceof SearchResponseValidationError && (
+              <ul className="space-y-1 font-mono text-xs text-red-800 dark:text-red-300 bg-red-50 dark:bg-red-950/40 p-3 rounded-md border border-red-200 dark:border-red-900">
+                {error.issues.map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-semibold">{issue.path}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={onRetry} size="sm">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retry
+              </Button>
+              <Button onClick={handleCopyDiagnostics} variant="outline" size="sm">
+                {copied ? (
+                  <>
+                    <Check className="mr-2 h-4 w-4 text-green-600 dark:text-green-400" />
+                    Copied
+                  </>
+                ) : (
+                  <>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy diagnostic details
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import { History, Pin, PinOff, Play, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useSearchHistory } from "@/hooks/use-search-history";
+import { buildSearchUrl } from "@/lib/search-url";
+import { cn } from "@/lib/utils";
+import type { SearchHistoryEntry } from "@/lib/search-history";
+
+const HistoryItem = ({
+  entry,
+  onRerun,
+  onTogglePin,
+  onRemove,
+}: {
+  entry: SearchHistoryEntry;
+  onRerun: () => void;
+  onTogglePin: () => void;
+  onRemove: () => void;
+}) => (
+  <li
+    className={cn(
+      "group rounded-md border p-3 transition-colors hover:bg-accent",
+      entry.pinned ? "border-amber-200 dark:border-amber-900 bg-amber-50/50 dark:bg-amber-950/30" : "border-border bg-card"
+    )}
+  >
+    <button onClick={onRerun} className="w-full text-left" title="Run this search again">
+      <p className="font-mono text-sm font-semibold text-foreground break-all">{entry.keyword}</p>
+      <p className="text-xs text-muted-foreground truncate">
+        {entry.repoNames ? entry.repoNames.join(", ") : "All Repositories"}
+      </p>
+      <p className="text-xs text-muted-foreground mt-1">
+        {entry.matchCount} matches · {formatDistanceToNow(entry.timestamp, { addSuffix: true })}
+      </p>
+    </button>
+    <div className="flex justify-end space-x-1 mt-2">
+      <Button onClick={onRerun} variant="ghost" size="sm" className="h-7 px-2" aria-label="Re-run search">
+        <Play className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        onClick={onTogglePin}
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2"
+        aria-label={entry.pinned ? "Unpin search" : "Pin search"}
+      >
+        {entry.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+      </Button>
+      <Button onClick={onRemove} variant="ghost" size="sm" className="h-7 px-2 hover:bg-red-50 dark:hover:bg-red-950/40" aria-label="Delete search">
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  </li>
+);
+
+export const SearchHistoryPanel = () => {
+  const { entries, togglePin, removeEntry, clearHistory } = useSearchHistory();
+  const navigate = useNavigate();
+
+  const pinned = entries.filter((entry) => entry.pinned);
+  const recent = entries.filter((entry) => !entry.pinned);
+
+  // Re-runs use the analyzer's cache; use "Re-analyze" on the results for a fresh run.
+  const rerun = (entry: SearchHistoryEntry) =>
+    navigate(buildSearchUrl({ keyword: entry.keyword, repoNames: entry.repoNames, force: false }));
+
+  const renderList = (list: SearchHistoryEntry[]) => (
+    <ul className="space-y-2">
+      {list.map((entry) => (
+        <HistoryItem
+          key={entry.id}
+          entry={entry}
+          onRerun={() => rerun(entry)}
+          onTogglePin={() => togglePin(entry.id)}
+          onRemove={() => removeEntry(entry.id)}
+        />
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card className="border-0 shadow-xl bg-card/95 backdrop-blur-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="flex items-center text-lg text-foreground">
+          <History className="h-5 w-5 mr-2 text-blue-500" />
+          History
+        </CardTitle>
+        {recent.length > 0 && (
+          <Button onClick={clearHistory} variant="ghost" size="sm" title="Remove all unpinned searches">
+            Clear all
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Searches you run will appear here.
+          </p>
+        ) : (
+          <ScrollArea className="h-[60vh] pr-3">
+            {pinned.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">Pinned</h4>
+                {renderList(pinned)}
+              </div>
+            )}
+            {recent.length > 0 && (
+              <div>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">Recent</h4>
+                {renderList(recent)}
+              </div>
+            )}
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
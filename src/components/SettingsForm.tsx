@@ -0,0 +1,344 @@
+import { useRef } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, RotateCcw, Save, Upload } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useRepositories } from "@/hooks/use-repositories";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { getConfiguredAnalyzerBaseUrl, getConfiguredSearchTimeoutMs } from "@/lib/config";
+import { downloadFile } from "@/lib/download";
+import { describeImportError } from "@/lib/import-file";
+import { migrateSettings, settingsSchema, type Settings } from "@/lib/settings";
+
+// Radix Select items cannot have an empty value.
+const ALL_REPOSITORIES = "__all__";
+
+const SECTION_CARD_CLASS = "border-0 shadow-xl bg-card/95 backdrop-blur-sm";
+
+export const SettingsForm = () => {
+  const { settings, replaceSettings, resetSettings } = useSettings();
+  const { repositories } = useRepositories();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const importInput = useRef<HTMLInputElement>(null);
+
+  // `values` keeps the form in step when settings are reset, imported or changed in another tab.
+  const form = useForm<Settings>({
+    resolver: zodResolver(settingsSchema),
+    values: settings,
+  });
+
+  const apply = (next: Settings) => {
+    const analyzerChanged = next.analyzerBaseUrl !== settings.analyzerBaseUrl;
+    replaceSettings(next);
+    // Cached repositories and results came from the previous analyzer.
+    if (analyzerChanged) queryClient.invalidateQueries();
+  };
+
+  const handleSubmit = (values: Settings) => {
+    apply(values);
+    toast({
+      title: "Settings Saved",
+      description: "Your preferences have been updated.",
+    });
+  };
+
+  const handleReset = () => {
+    resetSettings();
+    if (settings.analyzerBaseUrl) queryClient.invalidateQueries();
+    toast({
+      title: "Settings Reset",
+      description: "All settings are back to their defaults.",
+    });
+  };
+
+  const handleExport = () => {
+    downloadFile({
+      content: JSON.stringify(settings, null, 2),
+      filename: `search-tool-settings-${format(new Date(), "yyyy-MM-dd")}.json`,
+      mimeType: "application/json",
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      apply(migrateSettings(JSON.parse(await file.text())));
+      toast({
+        title: "Settings Imported",
+        description: `Loaded settings from ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: describeImportError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <Card className={SECTION_CARD_CLASS}>
+          <CardHeader>
+            <CardTitle className="text-lg text-foreground">Analyzer backend</CardTitle>
+            <CardDescription>Leave blank to use the deployment's configuration.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="analyzerBaseUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Base URL</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="url" placeholder={getConfiguredAnalyzerBaseUrl()} className="font-mono" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="searchTimeoutSeconds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Request timeout (seconds)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min={5}
+                      max={600}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                      placeholder={String(getConfiguredSearchTimeoutMs() / 1000)}
+                      className="w-40"
+                    />
+                  </FormControl>
+                  <FormDescription>Each repository request is aborted after this long and retried if possible.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className={SECTION_CARD_CLASS}>
+          <CardHeader>
+            <CardTitle className="text-lg text-foreground">Search defaults</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="defaultRepository"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Default repository</FormLabel>
+                  <Select
+                    value={field.value ?? ALL_REPOSITORIES}
+                    onValueChange={(value) => field.onChange(value === ALL_REPOSITORIES ? null : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL_REPOSITORIES}>All Repositories</SelectItem>
+                      {repositories.map((repository) => (
+                        <SelectItem key={repository.name} value={repository.name} className="font-mono">
+                          {repository.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Preselected when you start a new search.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="defaultForceFresh"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <div className="space-y-1">
+                    <FormLabel>Force fresh analysis by default</FormLabel>
+                    <FormDescription>Slower, but never serves the analyzer's cached explanations.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="resultSort"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sort results by</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="relevance">Analyzer order</SelectItem>
+                      <SelectItem value="repo">Repository</SelectItem>
+                      <SelectItem value="file">File path</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="groupByRepository"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <FormLabel>Group results by repository</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className={SECTION_CARD_CLASS}>
+          <CardHeader>
+            <CardTitle className="text-lg text-foreground">Code viewer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="viewerLayout"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Open matches in</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="dialog">A dialog</SelectItem>
+                      <SelectItem value="sheet">A side panel beside the results</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="codeFontSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code font size</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="small">Small</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="large">Large</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="codeWrap"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <FormLabel>Wrap long lines</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="submit" disabled={!form.formState.isDirty}>
+            <Save className="mr-2 h-4 w-4" />
+            Save settings
+          </Button>
+          <Button type="button" variant="outline" onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+          <Button type="button" variant="outline" onClick={() => importInput.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <input
+            ref={importInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="ghost" className="ml-auto">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reset to defaults
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset all settings?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The analyzer override, search defaults and viewer preferences go back to their defaults. Search
+                  history is kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,10 @@
+import { usePersistentStore } from "@/hooks/use-persistent-store";
+import { bookmarkStore } from "@/lib/bookmarks";
+
+export const useBookmarks = () => ({
+  bookmarks: usePersistentStore(bookmarkStore),
+  addBookmark: bookmarkStore.add,
+  updateBookmark: bookmarkStore.update,
+  removeBookmark: bookmarkStore.remove,
+  mergeBookmarks: bookmarkStore.merge,
+});
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import type { PersistentStore } from "@/lib/persistent-store";
+
+export const usePersistentStore = <T>({ subscribe, getSnapshot }: Pick<PersistentStore<T>, "subscribe" | "getSnapshot">) =>
+  useSyncExternalStore(subscribe, getSnapshot);
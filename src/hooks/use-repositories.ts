@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { searchApi, type Repository } from "@/lib/search-api";
+
+// Used until the analyzer answers, or when its repository endpoint is unavailable.
+const FALLBACK_REPOSITORIES: Repository[] = [
+  "adjetter_main",
+  "mainserverreports",
+  "kapture-report",
+  "streamlineservice",
+  "ticket-history-analytics",
+  "kapture-dashboard",
+].map((name) => ({ name, indexed: true }));
+
+export const repositoryKeys = {
+  all: ["repositories"] as const,
+};
+
+export const useRepositories = () => {
+  const query = useQuery({
+    queryKey: repositoryKeys.all,
+    queryFn: ({ signal }) => searchApi.listRepositories({ signal }),
+    staleTime: 10 * 60 * 1000,
+    retry: 1,
+  });
+
+  return {
+    repositories: query.data ?? FALLBACK_REPOSITORIES,
+    isLoading: query.isLoading,
+    /** True when the list shown is the built-in fallback rather than the analyzer's. */
+    isFallback: !query.data,
+    error: query.error,
+  };
+};
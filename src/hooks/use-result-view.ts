@@ -0,0 +1,51 @@
+import { useMemo, useState } from "react";
+import {
+  computeFacets,
+  EMPTY_RESULT_FILTERS,
+  filterMatches,
+  groupByRepo,
+  sortMatches,
+  type ResultFilters,
+  type ResultSort,
+} from "@/lib/result-view";
+import type { Match } from "@/lib/search-api";
+
+interface ResultViewDefaults {
+  sort: ResultSort;
+  groupByRepository: boolean;
+}
+
+/** Client-side sorting, filtering and grouping of a result list, starting from the user's defaults. */
+export const useResultView = (matches: Match[], defaults: ResultViewDefaults) => {
+  const [filters, setFilters] = useState<ResultFilters>(EMPTY_RESULT_FILTERS);
+  const [sort, setSort] = useState<ResultSort>(defaults.sort);
+  const [groupByRepository, setGroupByRepository] = useState(defaults.groupByRepository);
+  const [collapsedRepos, setCollapsedRepos] = useState<string[]>([]);
+
+  const view = useMemo(() => {
+    const indexed = matches.map((match, index) => ({ match, index }));
+    const items = sortMatches(filterMatches(indexed, filters), sort);
+    const groups = groupByRepository ? groupByRepo(items) : null;
+
+    // Original indices of the rendered matches, top to bottom; collapsed groups are skipped.
+    const visibleOrder = (groups ? groups.filter((group) => !collapsedRepos.includes(group.repo)).flatMap((group) => group.items) : items)
+      .map((item) => item.index);
+
+    return { items, groups, visibleOrder, facets: computeFacets(indexed, filters) };
+  }, [matches, filters, sort, groupByRepository, collapsedRepos]);
+
+  return {
+    ...view,
+    total: matches.length,
+    filters,
+    setFilters,
+    sort,
+    setSort,
+    groupByRepository,
+    setGroupByRepository,
+    collapsedRepos,
+    setCollapsedRepos,
+  };
+};
+
+export type ResultView = ReturnType<typeof useResultView>;
@@ -0,0 +1,10 @@
+import { usePersistentStore } from "@/hooks/use-persistent-store";
+import { searchHistoryStore } from "@/lib/search-history";
+
+export const useSearchHistory = () => ({
+  entries: usePersistentStore(searchHistoryStore),
+  recordSearch: searchHistoryStore.record,
+  togglePin: searchHistoryStore.togglePin,
+  removeEntry: searchHistoryStore.remove,
+  clearHistory: searchHistoryStore.clear,
+});
@@ -0,0 +1,115 @@
+import { queryOptions, useQueries } from "@tanstack/react-query";
+import {
+  isTransientSearchError,
+  searchApi,
+  toAnalyzeParams,
+  type AnalyzeParams,
+  type Match,
+  type SearchRequest,
+  type SearchResponse,
+} from "@/lib/search-api";
+
+// Results are reused for this long before a background refetch is triggered.
+const SEARCH_STALE_TIME = 5 * 60 * 1000;
+const SEARCH_GC_TIME = 30 * 60 * 1000;
+
+export const SEARCH_MAX_RETRIES = 3;
+const SEARCH_RETRY_BASE_DELAY = 1000;
+const SEARCH_RETRY_MAX_DELAY = 30 * 1000;
+
+export const searchKeys = {
+  all: ["search"] as const,
+  detail: ({ keyword, repoName, force = false }: AnalyzeParams) =>
+    [...searchKeys.all, keyword, repoName, force] as const,
+};
+
+export const searchQueryOptions = (params: AnalyzeParams) =>
+  queryOptions({
+    queryKey: searchKeys.detail(params),
+    queryFn: ({ signal }) => searchApi.analyze(params, { signal }),
+    staleTime: SEARCH_STALE_TIME,
+    gcTime: SEARCH_GC_TIME,
+    // Analyzer calls are expensive; only refetch when the user asks for it.
+    refetchOnWindowFocus: false,
+    retry: (failureCount, error) => failureCount < SEARCH_MAX_RETRIES && isTransientSearchError(error),
+    // Exponential backoff: 1s, 2s, 4s, ... capped at 30s
+    retryDelay: (attemptIndex) => Math.min(SEARCH_RETRY_BASE_DELAY * 2 ** attemptIndex, SEARCH_RETRY_MAX_DELAY),
+  });
+
+export interface RepoSearchState {
+  params: AnalyzeParams;
+  data?: SearchResponse;
+  error: Error | null;
+  isLoading: boolean;
+  isFetching: boolean;
+  /** Failed attempts so far; resets on success. */
+  failureCount: number;
+  dataUpdatedAt: number;
+}
+
+export interface MultiSearchState {
+  repos: RepoSearchState[];
+  /** Matches from every repository that has answered so far, in selection order. */
+  results?: SearchResponse;
+  isLoading: boolean;
+  isFetching: boolean;
+  dataUpdatedAt: number;
+}
+
+/**
+ * Merges matches in selection order. When every repository was searched in one
+ * request, repositories re-analyzed on their own replace their matches from it
+ * in place, so the rest of the list keeps its order.
+ */
+const mergeMatches = (repos: RepoSearchState[]): Match[] => {
+  const combined = repos.find((repo) => repo.params.repoName === null);
+  if (!combined) return repos.flatMap((repo) => repo.data?.matches ?? []);
+
+  const reanalyzed = new Map(
+    repos.filter((repo) => repo !== combined && repo.data).map((repo) => [repo.params.repoName, repo.data.matches])
+  );
+  const placed = new Set<string>();
+  const merged = (combined.data?.matches ?? []).flatMap((match) => {
+    const replacement = reanalyzed.get(match.repo);
+    if (!replacement) return [match];
+    if (placed.has(match.repo)) return [];
+    placed.add(match.repo);
+    return replacement;
+  });
+  // Repositories the combined results had no matches in go last.
+  const unplaced = Array.from(reanalyzed).filter(([repoName]) => !placed.has(repoName));
+  return [...merged, ...unplaced.flatMap(([, matches]) => matches)];
+};
+
+/**
+ * Observes every per-repository query of `search`; pass `null` before the first search is submitted.
+ * With `enabled: false` it only reads what is already cached and never sends a request.
+ */
+export const useMultiSearch = (search: SearchRequest | null, { enabled = true } = {}): MultiSearchState => {
+  const paramsList = search ? toAnalyzeParams(search) : [];
+
+  return useQueries({
+    queries: paramsList.map((params) => ({ ...searchQueryOptions(params), enabled })),
+    combine: (queries) => {
+      const repos: RepoSearchState[] = queries.map((query, index) => ({
+        params: paramsList[index],
+        data: query.data,
+        error: query.error,
+        isLoading: query.isLoading,
+        isFetching: query.isFetching,
+        failureCount: query.failureCount,
+        dataUpdatedAt: query.dataUpdatedAt,
+      }));
+
+      const answered = repos.filter((repo) => repo.data);
+
+      return {
+        repos,
+        results: search && answered.length > 0 ? { keyword: search.keyword, matches: mergeMatches(repos) } : undefined,
+        isLoading: repos.some((repo) => repo.isLoading),
+        isFetching: repos.some((repo) => repo.isFetching),
+        dataUpdatedAt: Math.max(0, ...answered.map((repo) => repo.dataUpdatedAt)),
+      };
+    },
+  });
+};
@@ -0,0 +1,9 @@
+import { usePersistentStore } from "@/hooks/use-persistent-store";
+import { settingsStore } from "@/lib/settings";
+
+export const useSettings = () => ({
+  settings: usePersistentStore(settingsStore),
+  updateSettings: settingsStore.update,
+  replaceSettings: settingsStore.replace,
+  resetSettings: settingsStore.reset,
+});
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { createPersistentStore } from "@/lib/persistent-store";
+import { matchSchema, type Match } from "@/lib/search-schema";
+
+const STORAGE_KEY = "bookmarks";
+const EXPORT_VERSION = 1;
+
+export const bookmarkSchema = z.object({
+  id: z.string(),
+  match: matchSchema,
+  /** The keyword whose search found the match. */
+  keyword: z.string(),
+  repo: z.string(),
+  notes: z.string().default(""),
+  tags: z.array(z.string()).default([]),
+  /** Epoch milliseconds. */
+  createdAt: z.number(),
+});
+
+export type Bookmark = z.infer<typeof bookmarkSchema>;
+
+/** The shape written by "Export" and accepted by "Import". */
+export const bookmarkCollectionSchema = z.object({
+  version: z.literal(EXPORT_VERSION),
+  bookmarks: z.array(bookmarkSchema),
+});
+
+// FNV-1a; only needs to tell apart matches that share a location.
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// The same match found by the same keyword is one bookmark. Without line numbers several
+// matches can share a file, so their content tells them apart.
+export const bookmarkId = (match: Match, keyword: string) =>
+  JSON.stringify([
+    match.repo,
+    match.file ?? null,
+    match.startLine ?? null,
+    keyword,
+    hashText(match.code ?? match.explanation ?? match.summary ?? ""),
+  ]);
+
+// Ids are derived, so ones saved or exported before the id format changed are recomputed.
+const withCurrentIds = (list: Bookmark[]) => {
+  const seen = new Set<string>();
+  return list.flatMap((bookmark) => {
+    const id = bookmarkId(bookmark.match, bookmark.keyword);
+    if (seen.has(id)) return [];
+    seen.add(id);
+    return [{ ...bookmark, id }];
+  });
+};
+
+/** Splits a comma-separated tag list, dropping blanks and duplicates. */
+export const parseTags = (value: string) =>
+  Array.from(new Set(value.split(",").map((tag) => tag.trim()).filter(Boolean)));
+
+const store = createPersistentStore<Bookmark[]>(STORAGE_KEY, (stored) => {
+  const parsed = z.array(bookmarkSchema).safeParse(stored ?? []);
+  return parsed.success ? withCurrentIds(parsed.data) : [];
+});
+
+const getBookmarks = store.getSnapshot;
+const save = store.set;
+
+export const bookmarkStore = {
+  subscribe: store.subscribe,
+  getSnapshot: getBookmarks,
+
+  add: (match: Match, keyword: string) => {
+    const id = bookmarkId(match, keyword);
+    if (getBookmarks().some((bookmark) => bookmark.id === id)) return;
+
+    const bookmark: Bookmark = { id, match, keyword, repo: match.repo, notes: "", tags: [], createdAt: Date.now() };
+    save([bookmark, ...getBookmarks()]);
+  },
+
+  update: (id: string, changes: Partial<Pick<Bookmark, "notes" | "tags">>) => {
+    save(getBookmarks().map((bookmark) => (bookmark.id === id ? { ...bookmark, ...changes } : bookmark)));
+  },
+
+  remove: (id: string) => {
+    save(getBookmarks().filter((bookmark) => bookmark.id !== id));
+  },
+
+  /** Adds bookmarks that are not saved yet; existing ones keep their notes and tags. Returns how many were added. */
+  merge: (incoming: Bookmark[]) => {
+    const known = new Set(getBookmarks().map((bookmark) => bookmark.id));
+    const added: Bookmark[] = [];
+    for (const bookmark of incoming) {
+      if (known.has(bookmark.id)) continue;
+      known.add(bookmark.id);
+      added.push(bookmark);
+    }
+    save([...getBookmarks(), ...added].sort((a, b) => b.createdAt - a.createdAt));
+    return added.length;
+  },
+};
+
+export const serializeBookmarks = (list: Bookmark[]) =>
+  JSON.stringify({ version: EXPORT_VERSION, bookmarks: list }, null, 2);
+
+/** Parses an exported collection. Throws SyntaxError or ZodError when the file is not one. */
+export const parseBookmarks = (text: string) =>
+  withCurrentIds(bookmarkCollectionSchema.parse(JSON.parse(text)).bookmarks);
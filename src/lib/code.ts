@@ -0,0 +1,151 @@
+import hljs from "highlight.js/lib/core";
+import java from "highlight.js/lib/languages/java";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import python from "highlight.js/lib/languages/python";
+import sql from "highlight.js/lib/languages/sql";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import { escapeHtml } from "@/lib/utils";
+
+hljs.registerLanguage("java", java);
+hljs.registerLanguage("javascript", javascript);
+hljs.registerLanguage("json", json);
+hljs.registerLanguage("python", python);
+hljs.registerLanguage("sql", sql);
+hljs.registerLanguage("typescript", typescript);
+hljs.registerLanguage("xml", xml);
+
+export type CodeLanguage = "java" | "javascript" | "json" | "python" | "sql" | "typescript" | "xml";
+
+export const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  java: "Java",
+  javascript: "JavaScript",
+  json: "JSON",
+  python: "Python",
+  sql: "SQL",
+  typescript: "TypeScript",
+  xml: "XML",
+};
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  java: "java",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  sql: "sql",
+  xml: "xml",
+  html: "xml",
+  xsd: "xml",
+  jrxml: "xml",
+  json: "json",
+};
+
+/**
+ * Undoes the escaping the analyzer applies to code snippets so they render
+ * with real newlines and quotes.
+ */
+export const formatCode = (rawCode: string) =>
+  rawCode
+    .replace(/\\n/g, "\n") // Replace escaped newlines with actual newlines
+    .replace(/\\t/g, "  ") // Replace tabs with spaces
+    .replace(/\\"/g, '"') // Replace escaped quotes
+    .replace(/\\'/g, "'") // Replace escaped single quotes
+    .trim();
+
+export const languageFromPath = (path: string | undefined): CodeLanguage | null => {
+  const extension = path?.split(/[\\/]/).pop()?.split(".").pop()?.toLowerCase();
+  return (extension && EXTENSION_LANGUAGES[extension]) || null;
+};
+
+/** Maps a Markdown code fence's language (`java`, `ts`, `py`, …) onto a supported language. */
+export const languageFromFence = (name: string | undefined): CodeLanguage | null => {
+  const normalized = name?.toLowerCase();
+  if (!normalized) return null;
+  return normalized in LANGUAGE_LABELS ? (normalized as CodeLanguage) : EXTENSION_LANGUAGES[normalized] ?? null;
+};
+
+// Cheap, high-confidence checks tried before highlight.js' statistical auto-detection.
+const sniffLanguage = (code: string): CodeLanguage | null => {
+  const trimmed = code.trimStart();
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(code);
+      return "json";
+    } catch {
+      // not JSON
+    }
+  }
+  if (/^<(\?xml|[a-zA-Z!])/.test(trimmed)) return "xml";
+  if (/^\s*(package\s+[\w.]+;|import\s+[\w.]+(\.\*)?;)/m.test(code) || /\bpublic\s+(final\s+)?class\s+\w+/.test(code)) {
+    return "java";
+  }
+  if (/^\s*(SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM|CREATE\s+(TABLE|VIEW|INDEX)|ALTER\s+TABLE|WITH)\b/im.test(code)) {
+    return "sql";
+  }
+  if (/^\s*(def|class)\s+\w+.*:\s*$/m.test(code) || /^\s*from\s+[\w.]+\s+import\s+/m.test(code)) {
+    return "python";
+  }
+  return null;
+};
+
+/** Detects the snippet's language from the file extension, falling back to its content. */
+export const detectLanguage = (code: string, path?: string): CodeLanguage | null => {
+  const fromPath = languageFromPath(path);
+  if (fromPath) return fromPath;
+
+  const sniffed = sniffLanguage(code);
+  if (sniffed) return sniffed;
+
+  const auto = hljs.highlightAuto(code, Object.keys(LANGUAGE_LABELS));
+  // Low relevance means highlight.js is guessing; plain text reads better than wrong colours.
+  return auto.relevance >= 5 ? (auto.language as CodeLanguage) : null;
+};
+
+/**
+ * Returns highlighted HTML for `code`, or escaped plain text when the language
+ * is unknown. The source is always escaped, so the result is safe to inject.
+ */
+export const highlightCode = (code: string, language: CodeLanguage | null): string =>
+  language ? hljs.highlight(code, { language, ignoreIllegals: true }).value : escapeHtml(code);
+
+const closeTags = (openTags: string[]) =>
+  openTags
+    .map((tag) => `</${/^<([a-zA-Z]+)/.exec(tag)?.[1] ?? "span"}>`)
+    .reverse()
+    .join("");
+
+/**
+ * Splits highlighted HTML into one fragment per source line. Elements that
+ * span a line break (multi-line comments, strings) are closed at the end of
+ * the line and reopened on the next, so every fragment is well-formed.
+ */
+export const splitHtmlLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = "";
+
+  for (const part of html.split(/(<[^>]*>)/)) {
+    if (part.startsWith("</")) {
+      openTags.pop();
+      current += part;
+    } else if (part.startsWith("<")) {
+      openTags.push(part);
+      current += part;
+    } else {
+      const [first, ...rest] = part.split("\n");
+      current += first;
+      for (const text of rest) {
+        lines.push(current + closeTags(openTags));
+        current = openTags.join("") + text;
+      }
+    }
+  }
+  lines.push(current);
+  return lines;
+};
@@ -0,0 +1,50 @@
+import { settingsStore } from "@/lib/settings";
+
+const DEFAULT_ANALYZER_BASE_URL = "https://partnerresource-info-tracker.onrender.com";
+// Generous enough to survive a cold start of the hosted analyzer.
+const DEFAULT_SEARCH_TIMEOUT_MS = 90_000;
+
+declare global {
+  interface Window {
+    /** Optional runtime overrides, injected before the bundle loads (e.g. from /config.js). */
+    __APP_CONFIG__?: {
+      analyzerBaseUrl?: string;
+      searchTimeoutMs?: number;
+    };
+  }
+}
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, "");
+
+/**
+ * The deployment's analyzer base URL. Runtime config wins over the build-time
+ * `VITE_ANALYZER_BASE_URL`, which wins over the hosted default.
+ */
+export const getConfiguredAnalyzerBaseUrl = () => {
+  const runtimeUrl = typeof window !== "undefined" ? window.__APP_CONFIG__?.analyzerBaseUrl : undefined;
+  const envUrl = import.meta.env.VITE_ANALYZER_BASE_URL;
+
+  return trimTrailingSlash(runtimeUrl || envUrl || DEFAULT_ANALYZER_BASE_URL);
+};
+
+/** The analyzer to call: the user's override from the settings page, else the deployment's. */
+export const getAnalyzerBaseUrl = () => {
+  const userUrl = settingsStore.getSnapshot().analyzerBaseUrl;
+  return userUrl ? trimTrailingSlash(userUrl) : getConfiguredAnalyzerBaseUrl();
+};
+
+/** The deployment's limit on how long a single search request may run before it is aborted. */
+export const getConfiguredSearchTimeoutMs = () => {
+  const runtimeTimeout = typeof window !== "undefined" ? window.__APP_CONFIG__?.searchTimeoutMs : undefined;
+  const envTimeout = Number(import.meta.env.VITE_SEARCH_TIMEOUT_MS);
+
+  if (runtimeTimeout && runtimeTimeout > 0) return runtimeTimeout;
+  if (envTimeout > 0) return envTimeout;
+  return DEFAULT_SEARCH_TIMEOUT_MS;
+};
+
+/** The search timeout to apply: the user's override from the settings page, else the deployment's. */
+export const getSearchTimeoutMs = () => {
+  const userSeconds = settingsStore.getSnapshot().searchTimeoutSeconds;
+  return userSeconds ? userSeconds * 1000 : getConfiguredSearchTimeoutMs();
+};
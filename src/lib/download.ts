@@ -0,0 +1,18 @@
+export interface DownloadFile {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+/** Saves a file through a temporary object URL; nothing leaves the browser. */
+export const downloadFile = ({ content, filename, mimeType }: DownloadFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick so the browser has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,12 @@
+import { ZodError } from "zod";
+import { formatSchemaIssues } from "@/lib/search-schema";
+
+/** A one-line reason an imported JSON file was rejected, for the "Import Failed" toast. */
+export const describeImportError = (error: unknown) => {
+  if (error instanceof SyntaxError) return "The file is not valid JSON.";
+  if (error instanceof ZodError) {
+    const [issue] = formatSchemaIssues(error);
+    return `${issue.path}: ${issue.message}`;
+  }
+  return "The file could not be read.";
+};
@@ -0,0 +1,7 @@
+/** True when a key event comes from a text field, where single-letter shortcuts must not fire. */
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/** True when the event carries a modifier that should leave it to the browser or another shortcut. */
+export const hasModifier = (e: KeyboardEvent | React.KeyboardEvent) => e.altKey || e.ctrlKey || e.metaKey;
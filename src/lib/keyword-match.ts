@@ -0,0 +1,73 @@
+import { escapeHtml } from "@/lib/utils";
+
+export interface KeywordMatchOptions {
+  /** Only match occurrences not surrounded by other identifier characters. */
+  wholeWord?: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const buildPattern = (source: string, { wholeWord }: KeywordMatchOptions) =>
+  new RegExp(wholeWord ? `(?<![\\w$])${source}(?![\\w$])` : source, "gi");
+
+/** Case-insensitive matcher for `keyword`, or `null` when there is nothing to match. */
+export const keywordRegExp = (keyword: string | undefined, options: KeywordMatchOptions = {}) => {
+  const trimmed = keyword?.trim();
+  return trimmed ? buildPattern(escapeRegExp(trimmed), options) : null;
+};
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+export const splitByKeyword = (text: string, keyword: string | undefined, options: KeywordMatchOptions = {}) => {
+  const pattern = keywordRegExp(keyword, options);
+  if (!pattern) return [{ text, match: false }];
+
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+  for (const found of text.matchAll(pattern)) {
+    if (found.index > lastIndex) segments.push({ text: text.slice(lastIndex, found.index), match: false });
+    segments.push({ text: found[0], match: true });
+    lastIndex = found.index + found[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+};
+
+export const KEYWORD_MARK_CLASS = "keyword-match";
+/** Added to the occurrence currently selected with next/previous. */
+export const KEYWORD_MARK_CLASS_ACTIVE = "keyword-match-active";
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const decodeEntities = (html: string) =>
+  html.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    const codePoint = name[1] === "x" || name[1] === "X" ? Number.parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+
+/**
+ * Wraps keyword occurrences in already-escaped HTML (e.g. highlight.js output)
+ * with `<mark>`, touching only text between tags. Text is matched decoded, so
+ * a keyword never matches inside an entity such as `&quot;`.
+ */
+export const markKeywordInHtml = (html: string, keyword: string | undefined, options: KeywordMatchOptions = {}) => {
+  if (!keywordRegExp(keyword, options)) return html;
+
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) => {
+      if (part.startsWith("<")) return part;
+      const segments = splitByKeyword(decodeEntities(part), keyword, options);
+      if (!segments.some((segment) => segment.match)) return part;
+      return segments
+        .map(({ text, match }) =>
+          match ? `<mark class="${KEYWORD_MARK_CLASS}">${escapeHtml(text)}</mark>` : escapeHtml(text)
+        )
+        .join("");
+    })
+    .join("");
+};
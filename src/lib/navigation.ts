@@ -0,0 +1,15 @@
+import { Bookmark, GitBranch, History, Search, Settings } from "lucide-react";
+import { SEARCH_PATH } from "@/lib/search-url";
+
+/** Top-level sections, each a route in App.tsx and an entry in the sidebar. */
+export const NAV_ITEMS = [
+  { title: "Search", url: SEARCH_PATH, icon: Search },
+  { title: "History", url: "/history", icon: History },
+  { title: "Saved", url: "/saved", icon: Bookmark },
+  { title: "Repositories", url: "/repositories", icon: GitBranch },
+  { title: "Settings", url: "/settings", icon: Settings },
+];
+
+/** The root path is the search page too. */
+export const isNavItemActive = (url: string, pathname: string) =>
+  pathname === url || (url === SEARCH_PATH && pathname === "/");
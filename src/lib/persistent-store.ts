@@ -0,0 +1,64 @@
+export interface PersistentStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => T;
+  /** Replaces the value, saves it and notifies subscribers. */
+  set: (next: T) => void;
+}
+
+/**
+ * A value kept in localStorage under `key` and shared by every subscriber,
+ * including other tabs. `parse` turns the stored JSON into a value; it gets
+ * `undefined` when nothing readable is stored, and if it throws it is asked
+ * again with `undefined`.
+ */
+export const createPersistentStore = <T>(key: string, parse: (stored: unknown) => T): PersistentStore<T> => {
+  const load = (): T => {
+    try {
+      const raw = localStorage.getItem(key);
+      return parse(raw === null ? undefined : JSON.parse(raw));
+    } catch {
+      return parse(undefined);
+    }
+  };
+
+  let value: T | undefined;
+  let loaded = false;
+  const listeners = new Set<() => void>();
+
+  const getSnapshot = () => {
+    if (!loaded) {
+      value = load();
+      loaded = true;
+    }
+    return value;
+  };
+
+  const set = (next: T) => {
+    value = next;
+    loaded = true;
+
+    try {
+      localStorage.setItem(key, JSON.stringify(next));
+    } catch {
+      // Storage full or unavailable; the value still applies for this session.
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  // Changes made in other tabs are picked up even while nothing is subscribed, so a
+  // later `set` here never writes back a value that is out of date.
+  window.addEventListener("storage", (e) => {
+    if (e.key !== key && e.key !== null) return;
+    loaded = false;
+    listeners.forEach((listener) => listener());
+  });
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { subscribe, getSnapshot, set };
+};
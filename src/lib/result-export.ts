@@ -0,0 +1,108 @@
+import { format } from "date-fns";
+import { formatCode, languageFromPath } from "@/lib/code";
+import type { DownloadFile } from "@/lib/download";
+import type { Match, SearchRequest, SearchResponse } from "@/lib/search-api";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  markdown: "md",
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+  markdown: "text/markdown;charset=utf-8",
+};
+
+/** e.g. `search-BCCD_SIC_DESIGNATION_ID-2024-05-01.csv` */
+export const exportFilename = (keyword: string, exportFormat: ExportFormat, date = new Date()) => {
+  const slug = keyword.trim().replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "results";
+  return `search-${slug}-${format(date, "yyyy-MM-dd")}.${FILE_EXTENSIONS[exportFormat]}`;
+};
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = ({ matches }: SearchResponse) => {
+  const rows = [
+    ["repo", "file", "explanation", "developer_notes"],
+    // Summaries have no file; their summary fills the explanation column.
+    ...matches.map((match) => [
+      match.repo,
+      match.file ?? "",
+      match.explanation ?? match.summary ?? "",
+      match.DevDescriptionSummary ?? "",
+    ]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+};
+
+export const toJson = (response: SearchResponse) => JSON.stringify(response, null, 2);
+
+// A fence one backtick longer than any run inside the code, so the code cannot close it.
+const codeFence = (code: string) => {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longestRun + 1));
+};
+
+const developerNotes = (match: Match) =>
+  match.DevDescriptionSummary ? ["", "**Developer notes:**", "", match.DevDescriptionSummary] : [];
+
+export const toMarkdown = ({ keyword, matches }: SearchResponse, search: SearchRequest | null, date = new Date()) => {
+  const summaries = matches.filter((match) => !match.file);
+  const codeMatches = matches.filter((match) => match.file);
+  const lines = [
+    `# Search results for \`${keyword}\``,
+    "",
+    `- **Repositories:** ${search?.repoNames?.join(", ") ?? "All repositories"}`,
+    `- **Matches:** ${codeMatches.length} in code, ${summaries.length} repository summaries`,
+    `- **Analysis:** ${search?.force ? "fresh" : "cached"}`,
+    `- **Exported:** ${format(date, "yyyy-MM-dd HH:mm")}`,
+  ];
+
+  if (summaries.length > 0) {
+    lines.push("", "## Summaries");
+    for (const match of summaries) {
+      lines.push("", `### ${match.repo}`, "", match.summary ?? "", ...developerNotes(match));
+    }
+  }
+
+  if (codeMatches.length > 0) {
+    lines.push("", "## Matches");
+    for (const match of codeMatches) {
+      lines.push("", `### ${match.repo}: \`${match.file}\``);
+      if (match.startLine) lines.push("", `Starting at line ${match.startLine}.`);
+      if (match.explanation) lines.push("", match.explanation);
+      lines.push(...developerNotes(match));
+      if (match.code) {
+        const code = formatCode(match.code);
+        const fence = codeFence(code);
+        lines.push("", `${fence}${languageFromPath(match.file) ?? ""}`, code, fence);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+export const buildExport = (
+  exportFormat: ExportFormat,
+  response: SearchResponse,
+  search: SearchRequest | null
+): DownloadFile => {
+  const date = new Date();
+  const content =
+    exportFormat === "csv"
+      ? toCsv(response)
+      : exportFormat === "json"
+        ? toJson(response)
+        : toMarkdown(response, search, date);
+
+  return {
+    content,
+    filename: exportFilename(response.keyword, exportFormat, date),
+    mimeType: MIME_TYPES[exportFormat],
+  };
+};
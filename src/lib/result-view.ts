@@ -0,0 +1,133 @@
+import type { Match } from "@/lib/search-api";
+
+export type MatchKind = "code" | "summary";
+export type ResultSort = "relevance" | "repo" | "file";
+
+/** A match together with its position in the search response, which stays its identity across sorting and filtering. */
+export interface IndexedMatch {
+  match: Match;
+  index: number;
+}
+
+export interface ResultFilters {
+  /** Case-insensitive text looked up in the path, explanation, summary and developer notes. */
+  query: string;
+  /** Lower-case extensions including the dot, e.g. `.java`; empty means all. */
+  extensions: string[];
+  directoryPrefix: string;
+  /** Empty means all kinds. */
+  kinds: MatchKind[];
+}
+
+export const EMPTY_RESULT_FILTERS: ResultFilters = {
+  query: "",
+  extensions: [],
+  directoryPrefix: "",
+  kinds: [],
+};
+
+export const NO_EXTENSION = "(none)";
+
+export const matchKind = (match: Match): MatchKind => (match.file ? "code" : "summary");
+
+export const fileExtension = (match: Match) => {
+  const name = match.file?.split(/[\\/]/).pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot).toLowerCase() : NO_EXTENSION;
+};
+
+const normalizePath = (path: string) => path.replace(/\\/g, "/").replace(/^\.?\//, "").toLowerCase();
+
+const matchesQuery = ({ match }: IndexedMatch, query: string) => {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle ||
+    [match.repo, match.file, match.explanation, match.summary, match.DevDescriptionSummary].some((field) =>
+      field?.toLowerCase().includes(needle)
+    )
+  );
+};
+
+const matchesExtension = ({ match }: IndexedMatch, extensions: string[]) =>
+  extensions.length === 0 || (matchKind(match) === "code" && extensions.includes(fileExtension(match)));
+
+const matchesDirectory = ({ match }: IndexedMatch, prefix: string) => {
+  const normalizedPrefix = normalizePath(prefix.trim());
+  return !normalizedPrefix || (!!match.file && normalizePath(match.file).startsWith(normalizedPrefix));
+};
+
+const matchesKind = ({ match }: IndexedMatch, kinds: MatchKind[]) => kinds.length === 0 || kinds.includes(matchKind(match));
+
+export const filterMatches = (items: IndexedMatch[], filters: ResultFilters) =>
+  items.filter(
+    (item) =>
+      matchesQuery(item, filters.query) &&
+      matchesExtension(item, filters.extensions) &&
+      matchesDirectory(item, filters.directoryPrefix) &&
+      matchesKind(item, filters.kinds)
+  );
+
+export const sortMatches = (items: IndexedMatch[], sort: ResultSort) => {
+  if (sort === "relevance") return items;
+
+  const compare = (a: IndexedMatch, b: IndexedMatch) => {
+    if (sort === "repo") {
+      return a.match.repo.localeCompare(b.match.repo) || (a.match.file ?? "").localeCompare(b.match.file ?? "");
+    }
+    // Summaries have no path and go last when sorting by file.
+    if (!a.match.file || !b.match.file) return Number(!a.match.file) - Number(!b.match.file);
+    return a.match.file.localeCompare(b.match.file) || a.match.repo.localeCompare(b.match.repo);
+  };
+  return [...items].sort((a, b) => compare(a, b) || a.index - b.index);
+};
+
+export interface ResultGroup {
+  repo: string;
+  items: IndexedMatch[];
+}
+
+/** Groups by repository, keeping groups in order of their first match. */
+export const groupByRepo = (items: IndexedMatch[]): ResultGroup[] => {
+  const groups = new Map<string, IndexedMatch[]>();
+  for (const item of items) {
+    const group = groups.get(item.match.repo) ?? [];
+    group.push(item);
+    groups.set(item.match.repo, group);
+  }
+  return Array.from(groups, ([repo, groupItems]) => ({ repo, items: groupItems }));
+};
+
+const countBy = <T extends string>(items: IndexedMatch[], key: (item: IndexedMatch) => T) => {
+  const counts = new Map<T, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  return counts;
+};
+
+export interface ResultFacets {
+  extensions: Map<string, number>;
+  kinds: Map<MatchKind, number>;
+}
+
+/**
+ * Counts per facet value. Each facet is counted with every other filter
+ * applied, so the numbers say how many results selecting that value would add.
+ */
+export const computeFacets = (items: IndexedMatch[], filters: ResultFilters): ResultFacets => {
+  const forExtensions = filterMatches(items, { ...filters, extensions: [] }).filter(
+    ({ match }) => matchKind(match) === "code"
+  );
+  const forKinds = filterMatches(items, { ...filters, kinds: [] });
+
+  return {
+    extensions: countBy(forExtensions, ({ match }) => fileExtension(match)),
+    kinds: countBy(forKinds, ({ match }) => matchKind(match)),
+  };
+};
+
+export const hasActiveFilters = (filters: ResultFilters) =>
+  filters.query.trim() !== "" ||
+  filters.extensions.length > 0 ||
+  filters.directoryPrefix.trim() !== "" ||
+  filters.kinds.length > 0;
@@ -0,0 +1,180 @@
+import type { z } from "zod";
+import { getAnalyzerBaseUrl, getSearchTimeoutMs } from "@/lib/config";
+import {
+  SearchHttpError,
+  SearchNetworkError,
+  SearchResponseValidationError,
+  SearchTimeoutError,
+  extractServerMessage,
+  toResponseSnippet,
+  type SearchDiagnostics,
+} from "@/lib/search-errors";
+import {
+  formatSchemaIssues,
+  repositoriesResponseSchema,
+  searchResponseSchema,
+  type Repository,
+  type SearchResponse,
+} from "@/lib/search-schema";
+
+export type { Match, Repository, SearchResponse } from "@/lib/search-schema";
+export * from "@/lib/search-errors";
+
+export interface AnalyzeParams {
+  keyword: string;
+  /** Repository to search, or `null` to search every repository. */
+  repoName: string | null;
+  force?: boolean;
+}
+
+/** A search as the user submitted it; fanned out into one analyzer request per repository. */
+export interface SearchRequest {
+  keyword: string;
+  /** Repositories to search, or `null` to search every repository in a single request. */
+  repoNames: string[] | null;
+  force: boolean;
+  /** Repositories re-analyzed on their own since the search ran; their results are always fresh. */
+  reanalyzedRepos?: string[];
+}
+
+export const toAnalyzeParams = ({ keyword, repoNames, force, reanalyzedRepos = [] }: SearchRequest): AnalyzeParams[] => {
+  if (repoNames !== null) {
+    return repoNames.map((repoName) => ({ keyword, repoName, force: force || reanalyzedRepos.includes(repoName) }));
+  }
+  // Re-analyzed repositories are requested separately and replace their part of the combined results.
+  return [
+    { keyword, repoName: null, force },
+    ...(force ? [] : reanalyzedRepos.map((repoName) => ({ keyword, repoName, force: true }))),
+  ];
+};
+
+export interface AnalyzeOptions {
+  /** Aborts the request, e.g. when React Query cancels the query. */
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+// Wire format expected by POST /analyze/v2
+interface AnalyzeRequestBody {
+  pr: string;
+  force: "true" | "false";
+  repoName: string | null;
+}
+
+interface RequestResult {
+  text: string;
+  diagnostics: SearchDiagnostics;
+}
+
+/**
+ * Performs a request against the analyzer with timeout and cancellation, and
+ * maps transport and HTTP failures onto the SearchApiError hierarchy.
+ */
+const request = async (
+  path: string,
+  init: RequestInit,
+  { signal, timeoutMs = getSearchTimeoutMs() }: AnalyzeOptions,
+  requestBody?: unknown,
+): Promise<RequestResult> => {
+  const url = `${getAnalyzerBaseUrl()}${path}`;
+  const diagnostics: SearchDiagnostics = {
+    url,
+    requestBody,
+    timestamp: new Date().toISOString(),
+  };
+
+  // One controller covers both caller cancellation and our own timeout.
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  // A signal aborted before the call never fires "abort" again.
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener("abort", abortFromCaller);
+
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+    text = await response.text();
+  } catch (error) {
+    if (timedOut) throw new SearchTimeoutError(timeoutMs, diagnostics);
+    if (signal?.aborted) throw error;
+    // fetch rejects with a TypeError when the request never reached the server
+    if (error instanceof TypeError) throw new SearchNetworkError(diagnostics, error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+
+  const responseDiagnostics: SearchDiagnostics = {
+    ...diagnostics,
+    status: response.status,
+    responseSnippet: toResponseSnippet(text),
+  };
+
+  if (!response.ok) {
+    throw new SearchHttpError(response.status, extractServerMessage(text), responseDiagnostics);
+  }
+
+  return { text, diagnostics: responseDiagnostics };
+};
+
+const parseResponse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, { text, diagnostics }: RequestResult): T => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SearchResponseValidationError(
+      [{ path: "(root)", message: "Response body is not valid JSON" }],
+      diagnostics,
+    );
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new SearchResponseValidationError(formatSchemaIssues(parsed.error), diagnostics);
+  }
+
+  return parsed.data;
+};
+
+const analyze = async (
+  { keyword, repoName, force = false }: AnalyzeParams,
+  options: AnalyzeOptions = {},
+): Promise<SearchResponse> => {
+  const body: AnalyzeRequestBody = {
+    pr: keyword,
+    force: force ? "true" : "false",
+    repoName,
+  };
+
+  const result = await request(
+    "/analyze/v2",
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    },
+    options,
+    body,
+  );
+
+  return parseResponse(searchResponseSchema, result);
+};
+
+const listRepositories = async (options: AnalyzeOptions = {}): Promise<Repository[]> => {
+  const result = await request("/repositories", { method: 'GET' }, options);
+  return parseResponse(repositoriesResponseSchema, result).repositories;
+};
+
+export const searchApi = {
+  analyze,
+  listRepositories,
+};
@@ -0,0 +1,116 @@
+import type { SchemaIssue } from "@/lib/search-schema";
+
+export type SearchErrorKind = "offline" | "network" | "timeout" | "client" | "server" | "schema";
+
+/** Everything needed to reproduce a failed search when filing a backend bug. */
+export interface SearchDiagnostics {
+  url: string;
+  requestBody: unknown;
+  status?: number;
+  responseSnippet?: string;
+  timestamp: string;
+}
+
+const RESPONSE_SNIPPET_LENGTH = 1000;
+
+export const toResponseSnippet = (text: string) =>
+  text.length > RESPONSE_SNIPPET_LENGTH ? `${text.slice(0, RESPONSE_SNIPPET_LENGTH)}…` : text;
+
+export abstract class SearchApiError extends Error {
+  abstract readonly kind: SearchErrorKind;
+
+  constructor(message: string, public readonly diagnostics: SearchDiagnostics) {
+    super(message);
+    this.name = "SearchApiError";
+  }
+
+  get status() {
+    return this.diagnostics.status;
+  }
+}
+
+/** The request never reached the analyzer, either because the browser is offline or the host is unreachable. */
+export class SearchNetworkError extends SearchApiError {
+  readonly kind: SearchErrorKind;
+
+  constructor(diagnostics: SearchDiagnostics, public readonly cause?: unknown) {
+    const offline = typeof navigator !== "undefined" && navigator.onLine === false;
+    super(offline ? "You appear to be offline" : "Could not reach the analyzer", diagnostics);
+    this.name = "SearchNetworkError";
+    this.kind = offline ? "offline" : "network";
+  }
+}
+
+export class SearchTimeoutError extends SearchApiError {
+  readonly kind = "timeout";
+
+  constructor(public readonly timeoutMs: number, diagnostics: SearchDiagnostics) {
+    super(`Search timed out after ${Math.round(timeoutMs / 1000)}s`, diagnostics);
+    this.name = "SearchTimeoutError";
+  }
+}
+
+/** The analyzer answered with a non-2xx status. */
+export class SearchHttpError extends SearchApiError {
+  readonly kind: SearchErrorKind;
+
+  constructor(
+    status: number,
+    /** Human-readable message extracted from the response body, if any. */
+    public readonly serverMessage: string | undefined,
+    diagnostics: SearchDiagnostics,
+  ) {
+    super(serverMessage || `HTTP error! status: ${status}`, { ...diagnostics, status });
+    this.name = "SearchHttpError";
+    this.kind = status >= 500 ? "server" : "client";
+  }
+}
+
+/** Thrown when the analyzer answers 2xx but the payload does not match `searchResponseSchema`. */
+export class SearchResponseValidationError extends SearchApiError {
+  readonly kind = "schema";
+
+  constructor(public readonly issues: SchemaIssue[], diagnostics: SearchDiagnostics) {
+    super("Backend returned unexpected data", diagnostics);
+    this.name = "SearchResponseValidationError";
+  }
+}
+
+/** Failures worth retrying: the analyzer was unreachable or answered with a 5xx. */
+export const isTransientSearchError = (error: unknown) =>
+  error instanceof SearchApiError && (error.kind === "offline" || error.kind === "network" || error.kind === "server");
+
+/**
+ * Pulls a readable message out of an error body. Understands FastAPI-style
+ * `{ detail }` (string or validation list) as well as `{ message }` / `{ error }`.
+ */
+export const extractServerMessage = (bodyText: string): string | undefined => {
+  if (!bodyText.trim()) return undefined;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(bodyText);
+  } catch {
+    return toResponseSnippet(bodyText.trim());
+  }
+
+  if (typeof body === "string") return body;
+  if (!body || typeof body !== "object") return undefined;
+
+  const { detail, message, error } = body as Record<string, unknown>;
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .map((item) => {
+        if (item && typeof item === "object" && "msg" in item) {
+          const loc = Array.isArray(item.loc) ? `${item.loc.join(".")}: ` : "";
+          return `${loc}${String(item.msg)}`;
+        }
+        return String(item);
+      })
+      .join("; ");
+  }
+  if (typeof message === "string") return message;
+  if (typeof error === "string") return error;
+  return undefined;
+};
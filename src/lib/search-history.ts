@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { createPersistentStore } from "@/lib/persistent-store";
+import type { SearchRequest } from "@/lib/search-api";
+
+const STORAGE_KEY = "search-history";
+/** Unpinned entries beyond this are dropped, oldest first. Pinned entries are never evicted. */
+export const SEARCH_HISTORY_LIMIT = 50;
+
+export interface SearchHistoryEntry extends SearchRequest {
+  id: string;
+  /** Epoch milliseconds of the most recent run. */
+  timestamp: number;
+  matchCount: number;
+  pinned: boolean;
+}
+
+const searchHistoryEntrySchema = z.object({
+  id: z.string(),
+  keyword: z.string(),
+  repoNames: z.array(z.string()).nullable(),
+  force: z.boolean(),
+  timestamp: z.number(),
+  matchCount: z.number(),
+  pinned: z.boolean(),
+});
+
+// Two runs of the same keyword against the same repositories share one entry.
+export const searchHistoryId = ({ keyword, repoNames }: Pick<SearchRequest, "keyword" | "repoNames">) =>
+  JSON.stringify([keyword, repoNames ? [...repoNames].sort() : null]);
+
+const store = createPersistentStore<SearchHistoryEntry[]>(STORAGE_KEY, (stored) => {
+  if (!Array.isArray(stored)) return [];
+  // Malformed entries are dropped one by one so the rest of the history survives.
+  return stored.flatMap((item) => {
+    const entry = searchHistoryEntrySchema.safeParse(item);
+    return entry.success ? [entry.data as SearchHistoryEntry] : [];
+  });
+});
+
+const getEntries = store.getSnapshot;
+
+const save = (next: SearchHistoryEntry[]) => {
+  let unpinnedCount = 0;
+  store.set(next.filter((entry) => entry.pinned || ++unpinnedCount <= SEARCH_HISTORY_LIMIT));
+};
+
+export const searchHistoryStore = {
+  subscribe: store.subscribe,
+  getSnapshot: getEntries,
+
+  record: (search: SearchRequest, matchCount: number) => {
+    const id = searchHistoryId(search);
+    const existing = getEntries().find((entry) => entry.id === id);
+    const entry: SearchHistoryEntry = {
+      keyword: search.keyword,
+      repoNames: search.repoNames,
+      force: search.force,
+      id,
+      timestamp: Date.now(),
+      matchCount,
+      pinned: existing?.pinned ?? false,
+    };
+    save([entry, ...getEntries().filter((other) => other.id !== id)]);
+  },
+
+  togglePin: (id: string) => {
+    save(getEntries().map((entry) => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry)));
+  },
+
+  remove: (id: string) => {
+    save(getEntries().filter((entry) => entry.id !== id));
+  },
+
+  /** Removes every unpinned entry. */
+  clear: () => {
+    save(getEntries().filter((entry) => entry.pinned));
+  },
+};
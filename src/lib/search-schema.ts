@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// The analyzer sometimes sends `null` for absent fields; normalise to `undefined`.
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+export const matchSchema = z.object({
+  file: optionalString,
+  repo: z.string(),
+  code: optionalString,
+  /** Line number of the first line of `code` in the original file, when the analyzer knows it. */
+  startLine: z
+    .number()
+    .int()
+    .positive()
+    .nullish()
+    .transform((value) => value ?? undefined),
+  explanation: optionalString,
+  summary: optionalString,
+  DevDescriptionSummary: optionalString,
+});
+
+export const searchResponseSchema = z.object({
+  keyword: z.string(),
+  matches: z.array(matchSchema),
+});
+
+export const repositorySchema = z.object({
+  name: z.string(),
+  /** ISO timestamp of the analyzer's last indexing run for this repository. */
+  lastIndexedAt: optionalString,
+  indexed: z.boolean().default(true),
+});
+
+export const repositoriesResponseSchema = z.object({
+  repositories: z.array(repositorySchema),
+});
+
+export type Match = z.infer<typeof matchSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type Repository = z.infer<typeof repositorySchema>;
+
+export interface SchemaIssue {
+  /** Dotted path to the offending field, e.g. `matches.3.code`. */
+  path: string;
+  message: string;
+}
+
+export const formatSchemaIssues = (error: z.ZodError): SchemaIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
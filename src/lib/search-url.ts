@@ -0,0 +1,79 @@
+import type { Match, SearchRequest } from "@/lib/search-api";
+
+export const SEARCH_PATH = "/search";
+
+// Query parameter names, e.g. /search?q=BCCD_SIC_DESIGNATION_ID&repo=mainserverreports&match=mainserverreports:src/Report.cs:42
+const PARAM_KEYWORD = "q";
+const PARAM_REPO = "repo";
+const PARAM_FORCE = "force";
+const PARAM_MATCH = "match";
+const PARAM_REANALYZED = "fresh";
+
+export interface SearchUrlState {
+  search: SearchRequest | null;
+  /** Key from `matchKeys` of the match open in the viewer. */
+  openMatchKey: string | null;
+}
+
+const matchLocation = ({ repo, file, startLine }: Match) => [repo, file ?? "", startLine ?? ""].join(":");
+
+/**
+ * Keys that identify matches in links by where they are rather than by their
+ * position in the merged list, which shifts as repositories answer in a
+ * different order. Matches at the same location (e.g. several snippets from one
+ * file without line numbers) are told apart by their order, as `repo:file:line#2`.
+ */
+export const matchKeys = (matches: Match[]) => {
+  const seen = new Map<string, number>();
+  return matches.map((match) => {
+    const location = matchLocation(match);
+    const ordinal = (seen.get(location) ?? 0) + 1;
+    seen.set(location, ordinal);
+    return ordinal === 1 ? location : `${location}#${ordinal}`;
+  });
+};
+
+export const parseSearchParams = (params: URLSearchParams): SearchUrlState => {
+  const keyword = params.get(PARAM_KEYWORD);
+  if (!keyword?.trim()) {
+    return { search: null, openMatchKey: null };
+  }
+
+  const repoNames = params.getAll(PARAM_REPO).filter(Boolean);
+  const reanalyzedRepos = params.getAll(PARAM_REANALYZED).filter(Boolean);
+
+  return {
+    search: {
+      keyword,
+      repoNames: repoNames.length > 0 ? repoNames : null,
+      force: params.get(PARAM_FORCE) === "1",
+      ...(reanalyzedRepos.length > 0 && { reanalyzedRepos }),
+    },
+    openMatchKey: params.get(PARAM_MATCH) || null,
+  };
+};
+
+export const toSearchParams = ({ search, openMatchKey }: SearchUrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (!search) return params;
+
+  params.set(PARAM_KEYWORD, search.keyword);
+  for (const repoName of search.repoNames ?? []) {
+    params.append(PARAM_REPO, repoName);
+  }
+  if (search.force) {
+    params.set(PARAM_FORCE, "1");
+  } else {
+    for (const repoName of search.reanalyzedRepos ?? []) {
+      params.append(PARAM_REANALYZED, repoName);
+    }
+  }
+  if (openMatchKey !== null) {
+    params.set(PARAM_MATCH, openMatchKey);
+  }
+  return params;
+};
+
+/** Builds a shareable link to a search, relative to the app root. */
+export const buildSearchUrl = (search: SearchRequest, openMatchKey: string | null = null) =>
+  `${SEARCH_PATH}?${toSearchParams({ search, openMatchKey })}`;
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { createPersistentStore } from "@/lib/persistent-store";
+
+const STORAGE_KEY = "app-settings";
+/** Bump when the stored shape changes, and teach `migrateSettings` to upgrade the old shape. */
+export const SETTINGS_VERSION = 1;
+
+// Stored by earlier releases before the settings store existed; read once as initial values.
+const LEGACY_WRAP_KEY = "code-viewer-wrap";
+const LEGACY_LAYOUT_KEY = "code-viewer-layout";
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const settingsSchema = z.object({
+  version: z.literal(SETTINGS_VERSION),
+  /** Empty means the deployment's configured analyzer. */
+  analyzerBaseUrl: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || isHttpUrl(value), "Enter an http:// or https:// URL"),
+  /** `null` means the deployment's configured timeout. */
+  searchTimeoutSeconds: z
+    .number()
+    .int("Use whole seconds")
+    .min(5, "At least 5 seconds")
+    .max(600, "At most 600 seconds")
+    .nullable(),
+  /** Preselected in the search form; `null` means all repositories. */
+  defaultRepository: z.string().nullable(),
+  defaultForceFresh: z.boolean(),
+  groupByRepository: z.boolean(),
+  resultSort: z.enum(["relevance", "repo", "file"]),
+  viewerLayout: z.enum(["dialog", "sheet"]),
+  codeWrap: z.boolean(),
+  codeFontSize: z.enum(["small", "medium", "large"]),
+});
+
+export type Settings = z.infer<typeof settingsSchema>;
+export type CodeFontSize = Settings["codeFontSize"];
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  analyzerBaseUrl: "",
+  searchTimeoutSeconds: null,
+  defaultRepository: null,
+  defaultForceFresh: false,
+  groupByRepository: false,
+  resultSort: "relevance",
+  viewerLayout: "dialog",
+  codeWrap: false,
+  codeFontSize: "medium",
+};
+
+/**
+ * Upgrades stored or imported settings to the current version, filling in
+ * defaults for anything missing. Throws a ZodError when values are invalid.
+ */
+export const migrateSettings = (raw: unknown): Settings => {
+  const stored = z
+    .object({ version: z.number().int().max(SETTINGS_VERSION, "Saved by a newer version of this app").optional() })
+    .passthrough()
+    .parse(raw);
+  return settingsSchema.parse({ ...DEFAULT_SETTINGS, ...stored, version: SETTINGS_VERSION });
+};
+
+const readLegacy = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const store = createPersistentStore<Settings>(STORAGE_KEY, (stored) => {
+  // Invalid settings make migrateSettings throw, and the store retries with nothing stored.
+  if (stored !== undefined) return migrateSettings(stored);
+
+  const wrap = readLegacy(LEGACY_WRAP_KEY);
+  const layout = readLegacy(LEGACY_LAYOUT_KEY);
+  return {
+    ...DEFAULT_SETTINGS,
+    codeWrap: typeof wrap === "boolean" ? wrap : DEFAULT_SETTINGS.codeWrap,
+    viewerLayout: layout === "sheet" ? "sheet" : DEFAULT_SETTINGS.viewerLayout,
+  };
+});
+
+export const settingsStore = {
+  subscribe: store.subscribe,
+  getSnapshot: store.getSnapshot,
+
+  update: (changes: Partial<Omit<Settings, "version">>) => {
+    store.set({ ...store.getSnapshot(), ...changes });
+  },
+
+  replace: (next: Settings) => {
+    store.set(next);
+  },
+
+  reset: () => {
+    store.set(DEFAULT_SETTINGS);
+  },
+};
@@ -0,0 +1,8 @@
+import { Monitor, Moon, Sun } from "lucide-react";
+
+/** Themes offered by the toggle and the command palette; values are next-themes theme names. */
+export const THEME_OPTIONS = [
+  { value: "light", label: "Light", icon: Sun },
+  { value: "dark", label: "Dark", icon: Moon },
+  { value: "system", label: "System", icon: Monitor },
+] as const;
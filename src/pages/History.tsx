@@ -0,0 +1,13 @@
+import { SearchHistoryPanel } from "@/components/SearchHistoryPanel";
+
+const SearchHistory = () => {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <SearchHistoryPanel />
+      </div>
+    </div>
+  );
+};
+
+export default SearchHistory;
@@ -1,12 +1,14 @@
 import { CodeSearchForm } from "@/components/CodeSearchForm";
+import { SearchHistoryPanel } from "@/components/SearchHistoryPanel";
 
 const Index = () => {
   return (
-    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
-      <div className="container mx-auto px-4 py-8">
-        <div className="max-w-4xl mx-auto">
-          <CodeSearchForm />
-        </div>
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto grid gap-6 lg:grid-cols-[minmax(0,1fr)_300px] items-start">
+        <CodeSearchForm />
+        <aside className="lg:sticky lg:top-8">
+          <SearchHistoryPanel />
+        </aside>
       </div>
     </div>
   );
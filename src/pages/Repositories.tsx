@@ -0,0 +1,71 @@
+import { formatDistanceToNow } from "date-fns";
+import { GitBranch } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRepositories } from "@/hooks/use-repositories";
+
+const Repositories = () => {
+  const { repositories, isLoading, isFallback } = useRepositories();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <Card className="border-0 shadow-xl bg-card/95 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg text-foreground">
+              <GitBranch className="h-5 w-5 mr-2 text-blue-500" />
+              Repositories
+            </CardTitle>
+            <CardDescription>
+              {isFallback && !isLoading
+                ? "Showing the built-in repository list; the analyzer's list is unavailable."
+                : "Repositories the analyzer can search, and when each was last indexed."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last indexed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading
+                  ? Array.from({ length: 4 }, (_, index) => (
+                      <TableRow key={index}>
+                        <TableCell colSpan={3}>
+                          <Skeleton className="h-5 w-full" />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  : repositories.map((repository) => (
+                      <TableRow key={repository.name}>
+                        <TableCell className="font-mono">{repository.name}</TableCell>
+                        <TableCell>
+                          {repository.indexed ? (
+                            <Badge variant="secondary">Indexed</Badge>
+                          ) : (
+                            <Badge variant="outline">Not indexed yet</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {repository.lastIndexedAt
+                            ? formatDistanceToNow(new Date(repository.lastIndexedAt), { addSuffix: true })
+                            : "Unknown"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Repositories;
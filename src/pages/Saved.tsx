@@ -0,0 +1,13 @@
+import { SavedMatchesPanel } from "@/components/SavedMatchesPanel";
+
+const Saved = () => {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <SavedMatchesPanel />
+      </div>
+    </div>
+  );
+};
+
+export default Saved;
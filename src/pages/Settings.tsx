@@ -0,0 +1,43 @@
+import { Settings as SettingsIcon } from "lucide-react";
+import { useTheme } from "next-themes";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SettingsForm } from "@/components/SettingsForm";
+import { THEME_OPTIONS } from "@/lib/theme";
+
+const Settings = () => {
+  const { theme, setTheme } = useTheme();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Card className="border-0 shadow-xl bg-card/95 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg text-foreground">
+              <SettingsIcon className="h-5 w-5 mr-2 text-blue-500" />
+              Appearance
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup value={theme} onValueChange={setTheme} className="flex flex-wrap gap-6">
+              {THEME_OPTIONS.map(({ value, label, icon: Icon }) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <RadioGroupItem id={`theme-${value}`} value={value} />
+                  <Label htmlFor={`theme-${value}`} className="flex items-center cursor-pointer">
+                    <Icon className="mr-2 h-4 w-4" />
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <SettingsForm />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;